@@ -0,0 +1,113 @@
+// 仿真的声音反馈（Web Audio）：每转一圈的滴答声、音高随绳子拉力升高的持续音、绳子断裂时的断裂声
+// 浏览器要求由用户操作启动音频，AudioContext 在第一次开启声音时才创建
+
+const TONE_MIN_FREQUENCY = 220; // Hz，拉力为零时的音高
+const TONE_MAX_FREQUENCY = 880; // Hz，拉力达到最大拉力时的音高（高两个八度）
+const TONE_LEVEL = 0.12;        // 持续音的最大音量，比滴答声和断裂声轻
+const SMOOTHING_TIME = 0.03;    // s，音高和音量变化的时间常数，避免突变产生的咔嗒声
+const TICK_FREQUENCY = 1600;    // Hz
+const TICK_DURATION = 0.04;     // s
+const SNAP_DURATION = 0.25;     // s
+
+export class SimulationSound {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;   // 总音量
+  private tone: OscillatorNode | null = null;
+  private toneGain: GainNode | null = null;
+  private enabled: boolean = false;
+  private volume: number = 0.5; // 0～1
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (enabled) {
+      this.ensureContext();
+      void this.context?.resume();
+    } else {
+      void this.context?.suspend();
+    }
+  }
+
+  public setVolume(volume: number): void {
+    this.volume = volume;
+    if (this.context && this.output) {
+      this.output.gain.setTargetAtTime(volume, this.context.currentTime, SMOOTHING_TIME);
+    }
+  }
+
+  // ratio 为绳子拉力与最大拉力之比，为 null（没有绳子、绳子已断或暂停）时持续音静音；
+  // 音高按指数从 220 Hz 升到 880 Hz，音量也随之增大，接近最大拉力时听起来尖而响
+  public setTensionRatio(ratio: number | null): void {
+    if (!this.enabled || !this.context || !this.tone || !this.toneGain) return;
+    const now = this.context.currentTime;
+    if (ratio === null) {
+      this.toneGain.gain.setTargetAtTime(0, now, SMOOTHING_TIME);
+      return;
+    }
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    const frequency = TONE_MIN_FREQUENCY * Math.pow(TONE_MAX_FREQUENCY / TONE_MIN_FREQUENCY, clamped);
+    this.tone.frequency.setTargetAtTime(frequency, now, SMOOTHING_TIME);
+    this.toneGain.gain.setTargetAtTime(TONE_LEVEL * (0.3 + 0.7 * clamped), now, SMOOTHING_TIME);
+  }
+
+  // 短促的高音，每转一圈响一次
+  public playTick(): void {
+    if (!this.enabled || !this.context || !this.output) return;
+    const now = this.context.currentTime;
+    const oscillator = this.context.createOscillator();
+    const gain = this.context.createGain();
+    oscillator.frequency.value = TICK_FREQUENCY;
+    gain.gain.setValueAtTime(0.5, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + TICK_DURATION);
+    oscillator.connect(gain).connect(this.output);
+    oscillator.start(now);
+    oscillator.stop(now + TICK_DURATION);
+  }
+
+  // 断裂声：迅速衰减的白噪声经高通滤波，听起来像绳子绷断的“啪”
+  public playSnap(): void {
+    if (!this.enabled || !this.context || !this.output) return;
+    const sampleRate = this.context.sampleRate;
+    const buffer = this.context.createBuffer(1, Math.round(sampleRate * SNAP_DURATION), sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.exp(-i / (sampleRate * 0.03));
+    }
+    const source = this.context.createBufferSource();
+    const filter = this.context.createBiquadFilter();
+    source.buffer = buffer;
+    filter.type = 'highpass';
+    filter.frequency.value = 1200;
+    source.connect(filter).connect(this.output);
+    source.start();
+  }
+
+  // 关闭 AudioContext；之后再次开启声音时重新创建
+  public dispose(): void {
+    void this.context?.close();
+    this.context = null;
+    this.output = null;
+    this.tone = null;
+    this.toneGain = null;
+  }
+
+  private ensureContext(): void {
+    if (this.context) return;
+    const context = new AudioContext();
+    const output = context.createGain();
+    output.gain.value = this.volume;
+    output.connect(context.destination);
+
+    const toneGain = context.createGain();
+    toneGain.gain.value = 0;
+    const tone = context.createOscillator();
+    tone.type = 'triangle';
+    tone.frequency.value = TONE_MIN_FREQUENCY;
+    tone.connect(toneGain).connect(output);
+    tone.start();
+
+    this.context = context;
+    this.output = output;
+    this.tone = tone;
+    this.toneGain = toneGain;
+  }
+}
@@ -0,0 +1 @@
+export { SimulationSound } from './SimulationSound';
@@ -0,0 +1,38 @@
+import { Eye, Moon, Sun } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface ThemeToggleProps {
+  isDark: boolean
+  onToggle: () => void
+  colorBlindSafe: boolean
+  onToggleColorBlindSafe: () => void
+}
+
+const buttonClass =
+  'flex items-center gap-1 px-3 py-2 rounded-lg shadow bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700 transition-colors text-sm'
+
+// 页面右上角的主题切换：浅色/深色主题和色盲友好配色
+export default function ThemeToggle({ isDark, onToggle, colorBlindSafe, onToggleColorBlindSafe }: ThemeToggleProps) {
+  return (
+    <div className="fixed top-4 right-4 z-10 flex space-x-2">
+      <button
+        onClick={onToggleColorBlindSafe}
+        aria-pressed={colorBlindSafe}
+        title="色盲友好配色"
+        className={cn(buttonClass, colorBlindSafe && 'ring-2 ring-blue-500')}
+      >
+        <Eye className="w-4 h-4" />
+        色盲友好
+      </button>
+      <button
+        onClick={onToggle}
+        aria-label={isDark ? '切换到浅色主题' : '切换到深色主题'}
+        title={isDark ? '切换到浅色主题' : '切换到深色主题'}
+        className={buttonClass}
+      >
+        {isDark ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+        {isDark ? '浅色' : '深色'}
+      </button>
+    </div>
+  )
+}
@@ -10,6 +10,8 @@ export function useTheme() {
     }
     return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
   });
+  // 色盲友好配色：矢量和图像改用红绿色盲也能区分的颜色
+  const [colorBlindSafe, setColorBlindSafe] = useState<boolean>(() => localStorage.getItem('colorBlindSafe') === 'true');
 
   useEffect(() => {
     document.documentElement.classList.remove('light', 'dark');
@@ -17,13 +19,23 @@ export function useTheme() {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    localStorage.setItem('colorBlindSafe', String(colorBlindSafe));
+  }, [colorBlindSafe]);
+
   const toggleTheme = () => {
     setTheme(prevTheme => prevTheme === 'light' ? 'dark' : 'light');
   };
 
+  const toggleColorBlindSafe = () => {
+    setColorBlindSafe(prev => !prev);
+  };
+
   return {
     theme,
     toggleTheme,
-    isDark: theme === 'dark'
+    isDark: theme === 'dark',
+    colorBlindSafe,
+    toggleColorBlindSafe
   };
-} 
\ No newline at end of file
+}
@@ -1,17 +1,29 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { UniformCircularMotionModel, UniformCircularMotionScene, createSceneryPalette } from '@/scenery';
+import ThemeToggle from '@/components/ThemeToggle';
+import { useTheme } from '@/hooks/useTheme';
 
 const HomePage: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const navigate = useNavigate();
   const [showForceAnalysis, setShowForceAnalysis] = useState(false);
-  const showForceRef = useRef(showForceAnalysis);
+  const { isDark, toggleTheme, colorBlindSafe, toggleColorBlindSafe } = useTheme();
+  const palette = useMemo(() => createSceneryPalette(isDark, colorBlindSafe), [isDark, colorBlindSafe]);
+  
+  // 与 PhET 风格首页共用同一套场景节点
+  const modelRef = useRef<UniformCircularMotionModel>(new UniformCircularMotionModel());
+  const sceneRef = useRef<UniformCircularMotionScene>(new UniformCircularMotionScene(modelRef.current));
+  
+  // 切换受力分析只改变箭头节点的可见性，不重新创建动画循环
+  useEffect(() => {
+    sceneRef.current.setForceAnalysisVisible(showForceAnalysis);
+  }, [showForceAnalysis]);
 
-  // 同步状态到ref，让动画函数能访问最新状态
   useEffect(() => {
-    showForceRef.current = showForceAnalysis;
-  }, []);
+    modelRef.current.palette = palette;
+  }, [palette]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -24,118 +36,20 @@ const HomePage: React.FC = () => {
     canvas.width = 600;
     canvas.height = 400;
 
-    let angle = 0;
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2 + 20; // 稍微向下调整圆心位置
-    const radius = 70; // 稍微减小半径以适应新的平面
-    const angularSpeed = 0.02;
+    let lastTimestamp: number | null = null;
 
     // 动画循环函数
-    const animate = () => {
+    const animate = (timestamp?: number) => {
       // 清空画布
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      // 绘制浅灰色背景平面（平行四边形，模拟斜上方视角）
-      ctx.fillStyle = '#f0f0f0';
-      ctx.beginPath();
-      ctx.moveTo(80, 180);  // 左下角
-      ctx.lineTo(520, 180); // 右下角
-      ctx.lineTo(580, 320); // 右上角
-      ctx.lineTo(140, 320); // 左上角
-      ctx.closePath();
-      ctx.fill();
-      
-      // 绘制透视效果的外框
-      ctx.strokeStyle = '#d0d0d0';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      // 计算方块位置
-      const blockX = centerX + radius * Math.cos(angle);
-      const blockY = centerY + radius * Math.sin(angle) * 0.3; // 透视效果，y轴压缩
-
-      // 绘制圆形轨迹（虚线）
-      ctx.strokeStyle = '#000000';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
-      ctx.beginPath();
-      ctx.ellipse(centerX, centerY, radius, radius * 0.3, 0, 0, 2 * Math.PI);
-      ctx.stroke();
-      ctx.setLineDash([]);
-
-      // 绘制钉子（圆心）
-      ctx.fillStyle = '#808080';
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, 4, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // 绘制绳子
-      ctx.strokeStyle = '#808080';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(centerX, centerY);
-      ctx.lineTo(blockX, blockY);
-      ctx.stroke();
-
-      // 绘制方块
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(blockX - 8, blockY - 8, 16, 16);
-
-      // 如果启用受力分析，绘制向心力箭头
-      if (showForceRef.current) {
-        // 计算向心力方向（指向圆心）
-        const forceDirX = centerX - blockX;
-        const forceDirY = centerY - blockY;
-        const distance = Math.sqrt(forceDirX * forceDirX + forceDirY * forceDirY);
-        
-        if (distance > 0) {
-          // 标准化方向向量
-          const unitDirX = forceDirX / distance;
-          const unitDirY = forceDirY / distance;
-          
-          // 箭头长度（适中，不超过绳子长度的一半）
-          const arrowLength = Math.min(30, distance * 0.4);
-          const arrowStartX = blockX;
-          const arrowStartY = blockY;
-          const arrowEndX = blockX + unitDirX * arrowLength;
-          const arrowEndY = blockY + unitDirY * arrowLength;
-          
-          // 绘制向心力箭头（红色）
-          ctx.strokeStyle = '#ff0000';
-          ctx.fillStyle = '#ff0000';
-          ctx.lineWidth = 3;
-          
-          // 箭头主体
-          ctx.beginPath();
-          ctx.moveTo(arrowStartX, arrowStartY);
-          ctx.lineTo(arrowEndX, arrowEndY);
-          ctx.stroke();
-          
-          // 箭头头部
-          const headLength = 8;
-          const headAngle = Math.PI / 6;
-          const angle = Math.atan2(unitDirY, unitDirX);
-          
-          ctx.beginPath();
-          ctx.moveTo(arrowEndX, arrowEndY);
-          ctx.lineTo(
-            arrowEndX - headLength * Math.cos(angle - headAngle),
-            arrowEndY - headLength * Math.sin(angle - headAngle)
-          );
-          ctx.lineTo(
-            arrowEndX - headLength * Math.cos(angle + headAngle),
-            arrowEndY - headLength * Math.sin(angle + headAngle)
-          );
-          ctx.closePath();
-          ctx.fill();
+      if (timestamp !== undefined) {
+        if (lastTimestamp !== null) {
+          sceneRef.current.step((timestamp - lastTimestamp) / 1000);
         }
+        lastTimestamp = timestamp;
       }
-
-      // 更新角度
-      angle += angularSpeed;
-      if (angle >= 2 * Math.PI) {
-        angle = 0;
-      }
+      sceneRef.current.render(ctx);
 
       animationRef.current = requestAnimationFrame(animate);
     };
@@ -147,18 +61,24 @@ const HomePage: React.FC = () => {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [showForceAnalysis]);
+  }, []);
 
   return (
-    <div className="min-h-screen bg-white flex">
+    <div className="min-h-screen bg-white dark:bg-gray-900 flex">
+      <ThemeToggle
+        isDark={isDark}
+        onToggle={toggleTheme}
+        colorBlindSafe={colorBlindSafe}
+        onToggleColorBlindSafe={toggleColorBlindSafe}
+      />
       {/* 左侧知识点区域 */}
-      <div className="w-1/3 bg-gray-50 p-8 border-r border-gray-200">
-        <h1 className="text-2xl font-bold text-gray-800 mb-6">水平圆周运动</h1>
+      <div className="w-1/3 bg-gray-50 dark:bg-gray-900 p-8 border-r border-gray-200 dark:border-gray-700">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-6">水平圆周运动</h1>
         
         <div className="space-y-6">
           <div>
-            <h2 className="text-lg font-semibold text-gray-700 mb-3">基本概念</h2>
-            <ul className="space-y-2 text-gray-600">
+            <h2 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-3">基本概念</h2>
+            <ul className="space-y-2 text-gray-600 dark:text-gray-300">
               <li>• 匀速圆周运动：速度大小不变，方向不断改变</li>
               <li>• 向心力：指向圆心的合力</li>
               <li>• 向心加速度：方向指向圆心</li>
@@ -166,28 +86,28 @@ const HomePage: React.FC = () => {
           </div>
 
           <div>
-            <h2 className="text-lg font-semibold text-gray-700 mb-3">基本公式</h2>
-            <div className="space-y-3 text-gray-600">
-              <div className="bg-white p-3 rounded border">
+            <h2 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-3">基本公式</h2>
+            <div className="space-y-3 text-gray-600 dark:text-gray-300">
+              <div className="bg-white dark:bg-gray-800 p-3 rounded border dark:border-gray-700">
                 <div className="font-medium">向心力：</div>
                 <div className="text-center mt-1">F = mv²/r = mω²r</div>
               </div>
               
-              <div className="bg-white p-3 rounded border">
+              <div className="bg-white dark:bg-gray-800 p-3 rounded border dark:border-gray-700">
                 <div className="font-medium">向心加速度：</div>
                 <div className="text-center mt-1">a = v²/r = ω²r</div>
               </div>
               
-              <div className="bg-white p-3 rounded border">
+              <div className="bg-white dark:bg-gray-800 p-3 rounded border dark:border-gray-700">
                 <div className="font-medium">线速度与角速度：</div>
                 <div className="text-center mt-1">v = ωr</div>
-                <div className="text-xs mt-2 text-gray-500">
+                <div className="text-xs mt-2 text-gray-500 dark:text-gray-400">
                   线速度方向：沿圆周切线方向<br/>
                   角速度方向：垂直于圆周平面（右手定则）
                 </div>
               </div>
               
-              <div className="bg-white p-3 rounded border">
+              <div className="bg-white dark:bg-gray-800 p-3 rounded border dark:border-gray-700">
                 <div className="font-medium">周期与频率：</div>
                 <div className="text-center mt-1">T = 2π/ω = 1/f</div>
               </div>
@@ -195,8 +115,8 @@ const HomePage: React.FC = () => {
           </div>
 
           <div>
-            <h2 className="text-lg font-semibold text-gray-700 mb-3">关键理解</h2>
-            <ul className="space-y-2 text-gray-600">
+            <h2 className="text-lg font-semibold text-gray-700 dark:text-gray-200 mb-3">关键理解</h2>
+            <ul className="space-y-2 text-gray-600 dark:text-gray-300">
               <li>• 向心力不是一种新的力，而是合力的效果</li>
               <li>• 线速度方向始终沿切线方向</li>
               <li>• 加速度方向始终指向圆心</li>
@@ -207,29 +127,30 @@ const HomePage: React.FC = () => {
 
       {/* 右侧动画区域 */}
       <div className="flex-1 flex flex-col items-center justify-center p-8">
-        <div className="bg-white rounded-lg shadow-lg p-8 mb-8">
-          <h2 className="text-xl font-semibold text-gray-800 mb-6 text-center">圆周运动演示</h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-6 text-center">圆周运动演示</h2>
           
           <div className="flex justify-center mb-6">
             <canvas 
               ref={canvasRef}
-              className="border border-gray-300 rounded"
-              style={{ backgroundColor: '#ffffff' }}
+              className="border border-gray-300 dark:border-gray-600 rounded"
+              style={{ backgroundColor: palette.background }}
             />
           </div>
 
-          <div className="text-center space-y-2 text-sm text-gray-600">
-            <div>黑色方块：运动物体</div>
-            <div>灰色钉子：圆心</div>
-            <div>灰色绳子：提供向心力</div>
-            <div>黑色虚线：运动轨迹</div>
-            <div className="text-red-600 font-medium">红色箭头：向心力（勾选受力分析显示）</div>
+          <div className="text-center space-y-2 text-sm text-gray-600 dark:text-gray-300">
+            {/* 图例的颜色取自画布当前的配色，不写颜色名 */}
+            <div style={{ color: palette.block }}>■ 运动物体</div>
+            <div style={{ color: palette.guide }}>● 钉子：圆心</div>
+            <div style={{ color: palette.guide }}>— 绳子：提供向心力</div>
+            <div style={{ color: palette.block }}>┄ 运动轨迹</div>
+            <div className="font-medium" style={{ color: palette.quantities.centripetal }}>→ 向心力（勾选受力分析显示）</div>
           </div>
         </div>
 
         {/* 控制选项 */}
         <div className="flex items-center justify-center mb-6">
-          <label className="flex items-center space-x-2 text-gray-700">
+          <label className="flex items-center space-x-2 text-gray-700 dark:text-gray-200">
             <input
               type="checkbox"
               checked={showForceAnalysis}
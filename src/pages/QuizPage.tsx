@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import ThemeToggle from '@/components/ThemeToggle';
+import { useTheme } from '@/hooks/useTheme';
 
 interface ChoiceQuestion {
   id: number;
@@ -130,6 +132,7 @@ const questions: Question[] = [
 
 const QuizPage: React.FC = () => {
   const navigate = useNavigate();
+  const { isDark, toggleTheme, colorBlindSafe, toggleColorBlindSafe } = useTheme();
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<number, any>>({});
   const [showResults, setShowResults] = useState(false);
@@ -198,13 +201,13 @@ const QuizPage: React.FC = () => {
       case 'choice':
         return (
           <div className="space-y-4">
-            <div className="bg-blue-50 px-3 py-1 rounded-full inline-block">
-              <span className="text-blue-700 text-sm font-medium">{question.category}</span>
+            <div className="bg-blue-50 dark:bg-blue-900/40 px-3 py-1 rounded-full inline-block">
+              <span className="text-blue-700 dark:text-blue-300 text-sm font-medium">{question.category}</span>
             </div>
-            <h3 className="text-lg font-semibold text-gray-800">{question.question}</h3>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{question.question}</h3>
             <div className="space-y-3">
               {question.options.map((option, index) => (
-                <label key={index} className="flex items-center p-3 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                <label key={index} className="flex items-center p-3 border dark:border-gray-700 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
                   <input
                     type="radio"
                     name={`question-${question.id}`}
@@ -213,7 +216,7 @@ const QuizPage: React.FC = () => {
                     onChange={() => handleChoiceAnswer(question.id, index)}
                     className="mr-3 text-blue-600"
                   />
-                  <span className="text-gray-700">{option}</span>
+                  <span className="text-gray-700 dark:text-gray-200">{option}</span>
                 </label>
               ))}
             </div>
@@ -223,13 +226,13 @@ const QuizPage: React.FC = () => {
       case 'calculation':
         return (
           <div className="space-y-4">
-            <div className="bg-green-50 px-3 py-1 rounded-full inline-block">
-              <span className="text-green-700 text-sm font-medium">{question.category}</span>
+            <div className="bg-green-50 dark:bg-green-900/40 px-3 py-1 rounded-full inline-block">
+              <span className="text-green-700 dark:text-green-300 text-sm font-medium">{question.category}</span>
             </div>
-            <h3 className="text-lg font-semibold text-gray-800">{question.question}</h3>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{question.question}</h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
                   最终答案（单位：{question.unit}）
                 </label>
                 <input
@@ -237,12 +240,12 @@ const QuizPage: React.FC = () => {
                   step="any"
                   value={userAnswers[question.id] || ''}
                   onChange={(e) => handleCalculationAnswer(question.id, e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
                   placeholder="请输入数值答案"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
                   上传解题过程（可选）
                 </label>
                 <input
@@ -250,10 +253,10 @@ const QuizPage: React.FC = () => {
                   multiple
                   accept=".jpg,.jpeg,.png,.pdf,.doc,.docx"
                   onChange={(e) => handleFileUpload(question.id, e.target.files)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
                 />
                 {uploadedFiles[question.id] && (
-                  <div className="mt-2 text-sm text-gray-600">
+                  <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">
                     已上传 {uploadedFiles[question.id].length} 个文件
                   </div>
                 )}
@@ -265,25 +268,25 @@ const QuizPage: React.FC = () => {
       case 'open':
         return (
           <div className="space-y-4">
-            <div className="bg-purple-50 px-3 py-1 rounded-full inline-block">
-              <span className="text-purple-700 text-sm font-medium">{question.category}</span>
+            <div className="bg-purple-50 dark:bg-purple-900/40 px-3 py-1 rounded-full inline-block">
+              <span className="text-purple-700 dark:text-purple-300 text-sm font-medium">{question.category}</span>
             </div>
-            <h3 className="text-lg font-semibold text-gray-800">{question.question}</h3>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{question.question}</h3>
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
                   你的思考与分析
                 </label>
                 <textarea
                   value={userAnswers[question.id] || ''}
                   onChange={(e) => handleOpenAnswer(question.id, e.target.value)}
                   rows={6}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
                   placeholder="请详细阐述你的观点和分析过程..."
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
                   上传相关资料或图示（可选）
                 </label>
                 <input
@@ -291,10 +294,10 @@ const QuizPage: React.FC = () => {
                   multiple
                   accept=".jpg,.jpeg,.png,.pdf,.doc,.docx"
                   onChange={(e) => handleFileUpload(question.id, e.target.files)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
                 />
                 {uploadedFiles[question.id] && (
-                  <div className="mt-2 text-sm text-gray-600">
+                  <div className="mt-2 text-sm text-gray-600 dark:text-gray-300">
                     已上传 {uploadedFiles[question.id].length} 个文件
                   </div>
                 )}
@@ -313,21 +316,27 @@ const QuizPage: React.FC = () => {
     const totalChoiceAndCalc = questions.filter(q => q.type === 'choice' || q.type === 'calculation').length;
 
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
-        <div className="bg-white rounded-lg shadow-lg p-8 max-w-2xl w-full">
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-6">
+        <ThemeToggle
+          isDark={isDark}
+          onToggle={toggleTheme}
+          colorBlindSafe={colorBlindSafe}
+          onToggleColorBlindSafe={toggleColorBlindSafe}
+        />
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 max-w-2xl w-full">
           <div className="text-center">
             <div className="mb-6">
-              <div className="w-20 h-20 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <span className="text-2xl font-bold text-blue-600">{score}/{totalChoiceAndCalc}</span>
+              <div className="w-20 h-20 bg-blue-100 dark:bg-blue-900/60 rounded-full flex items-center justify-center mx-auto mb-4">
+                <span className="text-2xl font-bold text-blue-600 dark:text-blue-400">{score}/{totalChoiceAndCalc}</span>
               </div>
-              <h2 className="text-2xl font-bold text-gray-800 mb-2">测试完成！</h2>
-              <p className="text-gray-600">你在客观题部分答对了 {score} 道题</p>
+              <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-2">测试完成！</h2>
+              <p className="text-gray-600 dark:text-gray-300">你在客观题部分答对了 {score} 道题</p>
             </div>
             
             <div className="space-y-4 mb-8">
-              <div className="bg-blue-50 p-4 rounded-lg">
-                <h3 className="font-semibold text-blue-800 mb-2">学习建议</h3>
-                <ul className="text-sm text-blue-700 space-y-1">
+              <div className="bg-blue-50 dark:bg-blue-900/40 p-4 rounded-lg">
+                <h3 className="font-semibold text-blue-800 dark:text-blue-200 mb-2">学习建议</h3>
+                <ul className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
                   <li>• 熟练掌握向心力公式 F = mω²r = mv²/r</li>
                   <li>• 理解线速度、角速度、周期之间的关系</li>
                   <li>• 多结合实际例子理解物理概念</li>
@@ -362,17 +371,23 @@ const QuizPage: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <ThemeToggle
+        isDark={isDark}
+        onToggle={toggleTheme}
+        colorBlindSafe={colorBlindSafe}
+        onToggleColorBlindSafe={toggleColorBlindSafe}
+      />
       {/* 进度条 */}
-      <div className="bg-white shadow-sm">
+      <div className="bg-white dark:bg-gray-800 shadow-sm">
         <div className="max-w-4xl mx-auto px-6 py-4">
           <div className="flex items-center justify-between mb-2">
-            <h1 className="text-2xl font-bold text-gray-800">圆周运动习题自测</h1>
-            <span className="text-sm text-gray-600">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">圆周运动习题自测</h1>
+            <span className="text-sm text-gray-600 dark:text-gray-300">
               第 {currentQuestionIndex + 1} 题 / 共 {questions.length} 题
             </span>
           </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
             <div 
               className="bg-blue-600 h-2 rounded-full transition-all duration-300"
               style={{ width: `${progress}%` }}
@@ -383,17 +398,17 @@ const QuizPage: React.FC = () => {
 
       {/* 题目内容 */}
       <div className="max-w-4xl mx-auto px-6 py-8">
-        <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8">
           {renderQuestion(currentQuestion)}
           
           {/* 导航按钮 */}
-          <div className="flex justify-between items-center mt-8 pt-6 border-t border-gray-200">
+          <div className="flex justify-between items-center mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
             <button
               onClick={prevQuestion}
               disabled={currentQuestionIndex === 0}
               className={`px-6 py-2 rounded-lg font-medium transition-colors ${
                 currentQuestionIndex === 0
-                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  ? 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed'
                   : 'bg-gray-600 text-white hover:bg-gray-700'
               }`}
             >
@@ -403,7 +418,7 @@ const QuizPage: React.FC = () => {
             <div className="flex space-x-4">
               <button
                 onClick={() => navigate('/')}
-                className="px-6 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+                className="px-6 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors font-medium"
               >
                 返回主页
               </button>
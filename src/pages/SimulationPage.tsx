@@ -1,555 +1,54 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-
-// PhET SceneryStack 类型定义
-interface SceneryNode {
-  x: number;
-  y: number;
-  visible: boolean;
-  render(context: CanvasRenderingContext2D): void;
-}
-
-interface Vector2 {
-  x: number;
-  y: number;
-}
-
-// 物理模拟状态
-enum SimulationState {
-  NORMAL_CIRCULAR_MOTION = 'normal',
-  ROPE_BROKEN = 'broken'
-}
-
-// 旋转方向
-enum RotationDirection {
-  CLOCKWISE = 'clockwise',
-  COUNTERCLOCKWISE = 'counterclockwise'
-}
-
-// PhET风格的物理模型
-class CircularMotionSimulationModel {
-  public angle: number = 0;
-  public mass: number = 1; // kg
-  public angularVelocity: number = 0.5; // rad/s (物理正确单位)
-  public maxTension: number = 5; // N
-  public radius: number = 1.0; // m (转换为米)
-  public centerPosition: Vector2 = { x: 300, y: 220 }; // 屏幕坐标，单位：像素
-  public rotationDirection: RotationDirection = RotationDirection.CLOCKWISE; // 运行方向
-  
-  public state: SimulationState = SimulationState.NORMAL_CIRCULAR_MOTION;
-  public brokenPosition: Vector2 = { x: 0, y: 0 };
-  public brokenVelocity: Vector2 = { x: 0, y: 0 };
-  
-  // 轨迹相关
-  public trajectoryPoints: Vector2[] = [];
-  public maxTrajectoryPoints: number = 200; // 最大轨迹点数量
-  private trajectoryCounter: number = 0;
-  private trajectoryInterval: number = 3; // 每3帧记录一个轨迹点
-  
-  // 时间和缩放因子
-  private timeScale: number = 0.016; // 时间缩放因子，模拟真实时间流逝
-  private pixelsPerMeter: number = 100; // 1米 = 100像素
-  
-  public get centripetalForce(): number {
-    return this.mass * this.angularVelocity * this.angularVelocity * this.radius;
-  }
-  
-  public get linearVelocity(): number {
-    return this.angularVelocity * this.radius;
-  }
-  
-  public step(deltaTime: number): void {
-    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
-      // 如果角速度为0，小球停止运动
-      if (this.angularVelocity === 0) {
-        return; // 停止运动
-      }
-      
-      // 检查绳子是否会断裂
-      if (this.centripetalForce > this.maxTension) {
-        this.breakRope();
-      } else {
-        // 正常圆周运动 - 根据旋转方向更新角度
-        const directionMultiplier = this.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
-        this.angle += this.angularVelocity * this.timeScale * directionMultiplier;
-        if (this.angle >= 2 * Math.PI) {
-          this.angle -= 2 * Math.PI;
-        } else if (this.angle < 0) {
-          this.angle += 2 * Math.PI;
-        }
-      }
-    } else {
-      // 绳子断裂后的匀速直线运动
-      // 将物理速度（m/s）转换为屏幕坐标变化（像素/帧）
-      const velocityPixelsPerFrame = {
-        x: this.brokenVelocity.x * this.pixelsPerMeter * this.timeScale,
-        y: this.brokenVelocity.y * this.pixelsPerMeter * this.timeScale * 0.3 // 透视效果
-      };
-      
-      this.brokenPosition.x += velocityPixelsPerFrame.x;
-      this.brokenPosition.y += velocityPixelsPerFrame.y;
-    }
-    
-    // 收集轨迹点
-    this.collectTrajectoryPoint();
-  }
-  
-  private collectTrajectoryPoint(): void {
-    this.trajectoryCounter++;
-    if (this.trajectoryCounter >= this.trajectoryInterval) {
-      const currentPos = this.getBlockPosition();
-      this.trajectoryPoints.push({ ...currentPos });
-      
-      // 限制轨迹点数量，保持性能
-      if (this.trajectoryPoints.length > this.maxTrajectoryPoints) {
-        this.trajectoryPoints.shift(); // 移除最老的点
-      }
-      
-      this.trajectoryCounter = 0;
-    }
-  }
-  
-  private breakRope(): void {
-    const currentPosition = this.getBlockPosition();
-    const currentVelocity = this.getCurrentVelocity();
-    
-    this.state = SimulationState.ROPE_BROKEN;
-    this.brokenPosition = { ...currentPosition };
-    this.brokenVelocity = { ...currentVelocity };
-  }
-  
-  public getBlockPosition(): Vector2 {
-    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
-      // 将物理单位（米）转换为屏幕坐标（像素）
-      const radiusPixels = this.radius * this.pixelsPerMeter;
-      return {
-        x: this.centerPosition.x + radiusPixels * Math.cos(this.angle),
-        y: this.centerPosition.y + radiusPixels * Math.sin(this.angle) * 0.3 // 透视效果
-      };
-    } else {
-      return this.brokenPosition;
-    }
-  }
-  
-  private getCurrentVelocity(): Vector2 {
-    // 获取当前线速度方向（切线方向）
-    const tangentAngle = this.angle + Math.PI / 2;
-    const velocity = this.linearVelocity; // m/s
-    
-    // 返回物理单位的速度（m/s），在断裂后的运动更新中再转换为像素单位
-    return {
-      x: velocity * Math.cos(tangentAngle),
-      y: velocity * Math.sin(tangentAngle) // 注意：这里不需要透视效果，因为是物理速度
-    };
-  }
-  
-  public reset(): void {
-    this.state = SimulationState.NORMAL_CIRCULAR_MOTION;
-    this.angle = 0;
-    this.brokenPosition = { x: 0, y: 0 };
-    this.brokenVelocity = { x: 0, y: 0 };
-    this.trajectoryPoints = []; // 清除轨迹
-    this.trajectoryCounter = 0;
-  }
-  
-  public clearTrajectory(): void {
-    this.trajectoryPoints = [];
-    this.trajectoryCounter = 0;
-  }
-}
-
-// PhET风格的视图节点
-class BlockNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    
-    const position = this.model.getBlockPosition();
-    this.x = position.x;
-    this.y = position.y;
-    
-    context.fillStyle = '#000000';
-    context.fillRect(this.x - 8, this.y - 8, 16, 16);
-  }
-}
-
-class RopeNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible || this.model.state === SimulationState.ROPE_BROKEN) return;
-    
-    const blockPos = this.model.getBlockPosition();
-    const centerPos = this.model.centerPosition;
-    
-    context.strokeStyle = '#808080';
-    context.lineWidth = 2;
-    context.beginPath();
-    context.moveTo(centerPos.x, centerPos.y);
-    context.lineTo(blockPos.x, blockPos.y);
-    context.stroke();
-  }
-}
-
-class TrajectoryNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    
-    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
-      // 绘制圆形轨迹
-      context.strokeStyle = '#000000';
-      context.lineWidth = 1;
-      context.setLineDash([5, 5]);
-      context.beginPath();
-      context.ellipse(
-        this.model.centerPosition.x,
-        this.model.centerPosition.y,
-        this.model.radius,
-        this.model.radius * 0.3,
-        0, 0, 2 * Math.PI
-      );
-      context.stroke();
-      context.setLineDash([]);
-    }
-  }
-}
-
-class CenterNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {
-    this.x = model.centerPosition.x;
-    this.y = model.centerPosition.y;
-  }
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    
-    context.fillStyle = '#808080';
-    context.beginPath();
-    context.arc(this.x, this.y, 4, 0, 2 * Math.PI);
-    context.fill();
-  }
-}
-
-class PlaneNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor() {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    
-    // 绘制透视平面（平行四边形）
-    context.fillStyle = '#f0f0f0';
-    context.beginPath();
-    context.moveTo(80, 180);   // 左下角
-    context.lineTo(520, 180);  // 右下角
-    context.lineTo(580, 320);  // 右上角
-    context.lineTo(140, 320);  // 左上角
-    context.closePath();
-    context.fill();
-    
-    context.strokeStyle = '#d0d0d0';
-    context.lineWidth = 2;
-    context.stroke();
-  }
-}
-
-class TrajectoryPathNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible || this.model.trajectoryPoints.length < 2) return;
-    
-    context.strokeStyle = '#4CAF50';
-    context.lineWidth = 2;
-    context.globalAlpha = 0.7;
-    
-    context.beginPath();
-    context.moveTo(this.model.trajectoryPoints[0].x, this.model.trajectoryPoints[0].y);
-    
-    for (let i = 1; i < this.model.trajectoryPoints.length; i++) {
-      context.lineTo(this.model.trajectoryPoints[i].x, this.model.trajectoryPoints[i].y);
-    }
-    
-    context.stroke();
-    context.globalAlpha = 1.0;
-  }
-}
-
-class StatusTextNode implements SceneryNode {
-  public x: number = 10;
-  public y: number = 30;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    
-    context.fillStyle = '#333333';
-    context.font = '14px Arial';
-    
-    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
-      if (this.model.angularVelocity === 0) {
-        context.fillStyle = '#666666';
-        context.fillText('角速度为0，小球静止', this.x, this.y);
-      } else {
-        context.fillText(`向心力: ${this.model.centripetalForce.toFixed(2)} N`, this.x, this.y);
-        context.fillText(`线速度: ${this.model.linearVelocity.toFixed(2)} m/s`, this.x, this.y + 20);
-      }
-    } else {
-      context.fillStyle = '#ff0000';
-      context.fillText('绳子断裂！物体做匀速直线运动', this.x, this.y);
-    }
-    
-    // 显示轨迹信息
-    context.fillStyle = '#4CAF50';
-    context.fillText(`轨迹点数: ${this.model.trajectoryPoints.length}`, this.x, this.y + 40);
-  }
-}
-
-// 角速度箭头（绿色）- 垂直圆周平面方向
-class AngularVelocityArrowNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible || this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
-    if (this.model.angularVelocity === 0) return;
-    
-    const blockPos = this.model.getBlockPosition();
-    this.x = blockPos.x;
-    this.y = blockPos.y;
-    
-    // 角速度方向：顺时针向下，逆时针向上
-    const isClockwise = this.model.rotationDirection === RotationDirection.CLOCKWISE;
-    const arrowLength = 50; // 增加长度
-    const endX = this.x;
-    const endY = this.y + (isClockwise ? arrowLength : -arrowLength);
-    
-    // 绘制箭头线
-    context.strokeStyle = '#4CAF50'; // 绿色
-    context.lineWidth = 4; // 增加线宽
-    context.beginPath();
-    context.moveTo(this.x, this.y);
-    context.lineTo(endX, endY);
-    context.stroke();
-    
-    // 绘制箭头头部
-    const headLength = 12; // 增加头部大小
-    const headAngle = Math.PI / 6;
-    
-    context.beginPath();
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX + headLength * Math.sin(headAngle),
-      endY + (isClockwise ? -headLength * Math.cos(headAngle) : headLength * Math.cos(headAngle))
-    );
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX - headLength * Math.sin(headAngle),
-      endY + (isClockwise ? -headLength * Math.cos(headAngle) : headLength * Math.cos(headAngle))
-    );
-    context.stroke();
-    
-    // 添加标签
-    context.fillStyle = '#4CAF50';
-    context.font = 'bold 14px Arial'; // 增加字体大小和粗细
-    context.fillText('ω', this.x + 18, this.y - 8);
-  }
-}
-
-// 线速度箭头（黄色）- 圆周切线方向
-class LinearVelocityArrowNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible) return;
-    if (this.model.angularVelocity === 0 && this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) return;
-    
-    const blockPos = this.model.getBlockPosition();
-    this.x = blockPos.x;
-    this.y = blockPos.y;
-    
-    let tangentAngle: number;
-    let velocityMagnitude: number;
-    
-    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
-      // 圆周运动：切线方向，根据旋转方向调整
-      const directionMultiplier = this.model.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
-      tangentAngle = this.model.angle + (Math.PI / 2) * directionMultiplier;
-      velocityMagnitude = Math.max(30, Math.min(this.model.linearVelocity * 50, 80)); // 增加缩放因子，确保最小长度30像素
-    } else {
-      // 绳子断裂：沿当前速度方向
-      tangentAngle = Math.atan2(this.model.brokenVelocity.y, this.model.brokenVelocity.x);
-      velocityMagnitude = Math.max(30, Math.min(this.model.linearVelocity * 50, 80));
-    }
-    
-    const endX = this.x + velocityMagnitude * Math.cos(tangentAngle);
-    const endY = this.y + velocityMagnitude * Math.sin(tangentAngle); // 移除透视效果，确保方向正确
-    
-    // 绘制箭头线
-    context.strokeStyle = '#FFC107'; // 黄色
-    context.lineWidth = 3;
-    context.beginPath();
-    context.moveTo(this.x, this.y);
-    context.lineTo(endX, endY);
-    context.stroke();
-    
-    // 绘制箭头头部
-    const headLength = 10;
-    const headAngle = Math.PI / 6;
-    
-    context.beginPath();
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX - headLength * Math.cos(tangentAngle - headAngle),
-      endY - headLength * Math.sin(tangentAngle - headAngle) // 移除透视效果
-    );
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX - headLength * Math.cos(tangentAngle + headAngle),
-      endY - headLength * Math.sin(tangentAngle + headAngle) // 移除透视效果
-    );
-    context.stroke();
-    
-    // 添加标签
-    context.fillStyle = '#FFC107';
-    context.font = '12px Arial';
-    const labelX = this.x + (velocityMagnitude + 20) * Math.cos(tangentAngle);
-    const labelY = this.y + (velocityMagnitude + 20) * Math.sin(tangentAngle); // 移除透视效果
-    context.fillText('v', labelX - 5, labelY - 5);
-  }
-}
-
-// 向心加速度箭头（红色）- 指向圆心
-class CentripetalAccelerationArrowNode implements SceneryNode {
-  public x: number = 0;
-  public y: number = 0;
-  public visible: boolean = true;
-  
-  constructor(private model: CircularMotionSimulationModel) {}
-  
-  public render(context: CanvasRenderingContext2D): void {
-    if (!this.visible || this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
-    if (this.model.angularVelocity === 0) return;
-    
-    const blockPos = this.model.getBlockPosition();
-    this.x = blockPos.x;
-    this.y = blockPos.y;
-    
-    // 向心加速度方向：指向圆心
-    const centerPos = this.model.centerPosition;
-    const angleToCenter = Math.atan2(centerPos.y - this.y, centerPos.x - this.x);
-    const accelerationMagnitude = Math.max(30, Math.min(this.model.centripetalForce / this.model.mass * 20, 70)); // 增加缩放因子，确保最小长度30像素
-    
-    const endX = this.x + accelerationMagnitude * Math.cos(angleToCenter);
-    const endY = this.y + accelerationMagnitude * Math.sin(angleToCenter); // 移除透视效果，确保方向正确
-    
-    // 绘制箭头线
-    context.strokeStyle = '#F44336'; // 红色
-    context.lineWidth = 3;
-    context.beginPath();
-    context.moveTo(this.x, this.y);
-    context.lineTo(endX, endY);
-    context.stroke();
-    
-    // 绘制箭头头部
-    const headLength = 10;
-    const headAngle = Math.PI / 6;
-    
-    context.beginPath();
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX - headLength * Math.cos(angleToCenter - headAngle),
-      endY - headLength * Math.sin(angleToCenter - headAngle) // 移除透视效果
-    );
-    context.moveTo(endX, endY);
-    context.lineTo(
-      endX - headLength * Math.cos(angleToCenter + headAngle),
-      endY - headLength * Math.sin(angleToCenter + headAngle) // 移除透视效果
-    );
-    context.stroke();
-    
-    // 添加标签
-    context.fillStyle = '#F44336';
-    context.font = '12px Arial';
-    const labelX = this.x + (accelerationMagnitude + 20) * Math.cos(angleToCenter);
-    const labelY = this.y + (accelerationMagnitude + 20) * Math.sin(angleToCenter); // 移除透视效果
-    context.fillText('a', labelX - 5, labelY - 5);
-  }
-}
-
-// PhET风格的根场景
-class SimulationScene {
-  private nodes: SceneryNode[] = [];
-  private model: CircularMotionSimulationModel;
-  
-  constructor(model: CircularMotionSimulationModel) {
-    this.model = model;
-    this.createNodes();
-  }
-  
-  private createNodes(): void {
-    this.nodes = [
-      new PlaneNode(),
-      new TrajectoryNode(this.model),
-      new CenterNode(this.model),
-      new RopeNode(this.model),
-      new TrajectoryPathNode(this.model), // 轨迹路径节点
-      new BlockNode(this.model),
-      // 矢量箭头节点（按顺序绘制，确保正确的覆盖关系）
-      new CentripetalAccelerationArrowNode(this.model), // 红色箭头，先绘制
-      new LinearVelocityArrowNode(this.model),          // 黄色箭头
-      new AngularVelocityArrowNode(this.model),         // 绿色箭头，最后绘制
-      new StatusTextNode(this.model)
-    ];
-  }
-  
-  public render(context: CanvasRenderingContext2D): void {
-    this.nodes.forEach(node => node.render(context));
-  }
-  
-  public step(deltaTime: number): void {
-    this.model.step(deltaTime);
-  }
-  
-  public updateParameters(params: Partial<CircularMotionSimulationModel>): void {
-    Object.assign(this.model, params);
-  }
-}
+import {
+  CAMERA_VIEWS,
+  CameraView,
+  CANVAS_OBJECTS,
+  CanvasObject,
+  CENTER_SNAP_PIXELS,
+  CircularMotionSimulationModel,
+  createSceneryPalette,
+  DRAG_MODEL_LABELS,
+  DragModel,
+  EXPERIMENT_VARIABLES,
+  ExperimentVariable,
+  GRAPH_AXIS_HEIGHT,
+  GRAPH_SERIES,
+  GRAPH_STRIP_HEIGHT,
+  GRAPH_TIME_WINDOWS,
+  GRAPH_WIDTH,
+  GraphSeries,
+  Integrator,
+  INTEGRATOR_LABELS,
+  MEASURING_TOOL_LABELS,
+  MeasuringTool,
+  MotionGraphNode,
+  ORBIT_CENTRAL_BODIES,
+  OrbitCentralBody,
+  RADIUS_RANGE,
+  ReferenceFrame,
+  ROAD_RADIUS_RANGE,
+  RotationDirection,
+  SceneryNode,
+  SimulationBlockNode,
+  SimulationCenterNode,
+  SimulationMode,
+  SimulationScene,
+  SimulationState,
+  TABLE_RADIUS_RANGE,
+  TOOL_CANVAS_OBJECTS,
+  ToolButtonNode,
+  ToolNode,
+  TRAIL_COLORING_LABELS,
+  TrailColoring,
+  type ExperimentRun,
+  type TurntableBodyConfig,
+  type Vector2
+} from '@/scenery';
+import { GifEncoder, ZipArchive } from '@/recording';
+import { SimulationSound } from '@/audio';
+import ThemeToggle from '@/components/ThemeToggle';
+import { useTheme } from '@/hooks/useTheme';
 
 // 参数控制组件
 interface ParameterControlProps {
@@ -559,77 +58,500 @@ interface ParameterControlProps {
   max: number;
   step: number;
   unit: string;
+  shortcut?: string; // 跳到该滑块的快捷键（小写字母）
   onChange: (value: number) => void;
 }
 
 const ParameterControl: React.FC<ParameterControlProps> = ({ 
-  label, value, min, max, step, unit, onChange 
+  label, value, min, max, step, unit, shortcut, onChange 
 }) => {
+  const inputId = useId();
   return (
-    <div className="bg-white p-4 rounded-lg border">
-      <label className="block text-sm font-medium text-gray-700 mb-2">
+    <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border dark:border-gray-700">
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
         {label}: {value.toFixed(2)} {unit}
+        {shortcut && <kbd className="ml-2 px-1 text-xs border dark:border-gray-700 rounded">{shortcut.toUpperCase()}</kbd>}
       </label>
       <div className="flex items-center space-x-3">
         <input
+          id={inputId}
           type="range"
           min={min}
           max={max}
           step={step}
           value={value}
+          aria-valuetext={`${value.toFixed(2)} ${unit}`}
+          aria-keyshortcuts={shortcut?.toUpperCase()}
+          data-shortcut={shortcut}
           onChange={(e) => onChange(parseFloat(e.target.value))}
-          className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
         />
         <input
           type="number"
+          aria-label={label}
           min={min}
           max={max}
           step={step}
           value={value.toFixed(2)}
           onChange={(e) => onChange(parseFloat(e.target.value))}
-          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
         />
       </div>
     </div>
   );
 };
 
+// 画布图例的一项：符号和文字取当前配色中的颜色，不写颜色名，切换主题或色盲友好配色后仍与画布一致
+interface LegendItemProps {
+  color: string;
+  symbol: string; // → 箭头，⇢ 虚线箭头（惯性力、分量），■ 物体，— 实线，┄ 虚线
+  children: React.ReactNode;
+}
+
+const LegendItem: React.FC<LegendItemProps> = ({ color, symbol, children }) => (
+  <span style={{ color }}>{symbol} {children}</span>
+);
+
+// 画布下方对各场景中圆周运动何时被破坏的提示
+const FAILURE_HINTS: Record<SimulationMode, string> = {
+  [SimulationMode.HORIZONTAL]: '当向心力超过最大拉力时，绳子断裂',
+  [SimulationMode.VERTICAL]: '拉力降为零时绳子松弛，超过最大拉力时绳子断裂',
+  [SimulationMode.CONICAL]: '当拉力超过最大拉力时，绳子断裂',
+  [SimulationMode.ROAD_CURVE]: '当所需静摩擦力超过最大静摩擦力时，车辆向外侧滑',
+  [SimulationMode.TURNTABLE]: '所需静摩擦力超过 μmg 的物体相对转盘滑动',
+  [SimulationMode.ORBIT]: '发射速度太小会撞上中心天体，达到逃逸速度时不再绕中心天体运动',
+  [SimulationMode.BRIDGE]: '拱桥上支持力降为零时，汽车离开桥面'
+};
+
+// 开普勒第三定律表格中的一行（以中心天体的显示单位计）
+interface KeplerRecord {
+  semiMajorAxis: number;
+  period: number;                // 由 T = 2π√(a³/GM) 计算
+  measuredPeriod: number | null; // 仿真中实测转过一整圈的时间
+}
+
+// 断裂实验的拟合结果：ω_c = A·(mr)^p，理论值 A = √T_max、p = -1/2
+interface BreakingFit {
+  coefficient: number;
+  exponent: number;
+}
+
+// 对 ln ω_c = ln A + p·ln(mr) 做最小二乘拟合；各次实验的 mr 需不全相同
+const fitBreakingRelation = (runs: ExperimentRun[]): BreakingFit | null => {
+  if (runs.length < 2) return null;
+  const points = runs.map(run => ({ x: Math.log(run.mass * run.radius), y: Math.log(run.criticalAngularSpeed) }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) * (point.x - meanX), 0);
+  if (sxx < 1e-9) return null;
+  const sxy = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const exponent = sxy / sxx;
+  return { coefficient: Math.exp(meanY - exponent * meanX), exponent };
+};
+
+// 转盘模式的默认物体：临界角速度 √(μg/r) 分别约为 2.80、2.21、1.81 rad/s，物体3 最先滑动
+const DEFAULT_TURNTABLE_BODIES: TurntableBodyConfig[] = [
+  { radius: 0.5, mass: 1, frictionCoefficient: 0.4 },
+  { radius: 1.0, mass: 2, frictionCoefficient: 0.5 },
+  { radius: 1.8, mass: 0.5, frictionCoefficient: 0.6 }
+];
+const MAX_TURNTABLE_BODIES = 4; // 每种配色中转盘物体的颜色数
+
+// 播放速度：慢放、正常和快放的倍率
+const PLAYBACK_RATES = [0.1, 0.25, 0.5, 1, 2, 4];
+
+// 画布尺寸（像素）
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 400;
+
+// 录制与导出：按仿真时间等间隔取帧，与显示器刷新率无关；导出的图片下方附参数说明
+enum ExportFormat {
+  GIF = 'gif',
+  PNG_SEQUENCE = 'png-sequence'
+}
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  [ExportFormat.GIF]: 'GIF 动画',
+  [ExportFormat.PNG_SEQUENCE]: 'PNG 帧序列（ZIP）'
+};
+
+const RECORDING_FRAME_RATE = 20; // 帧/s（仿真时间），每帧推进 3 个物理步长
+const CAPTION_HEIGHT = 28; // 像素
+const SNAPSHOT_SCALE = 3; // 高清截图的放大倍数
+const DOWNLOAD_REVOKE_DELAY = 1000; // ms，下载开始后释放对象 URL 的延迟
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('无法生成 PNG 图片'))), 'image/png');
+  });
+
+const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 立即释放会使部分浏览器取消下载，稍后再释放
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_DELAY);
+};
+
+// 在画布上按下指针时操作的对象：测量工具及其按钮、物体、圆心或相机（空白处）
+enum CanvasDragTarget {
+  BUTTON = 'button',
+  TOOL = 'tool',
+  BLOCK = 'block',
+  CENTER = 'center',
+  CAMERA = 'camera'
+}
+
+const CANVAS_DRAG_CURSORS: Record<CanvasDragTarget, string> = {
+  [CanvasDragTarget.BUTTON]: 'cursor-pointer',
+  [CanvasDragTarget.TOOL]: 'cursor-grab',
+  [CanvasDragTarget.BLOCK]: 'cursor-grab',
+  [CanvasDragTarget.CENTER]: 'cursor-grab',
+  [CanvasDragTarget.CAMERA]: 'cursor-move'
+};
+
+interface CanvasDrag {
+  target: CanvasDragTarget;
+  tool: ToolNode | null; // 拖动测量工具时被拖动的部件
+  lastPosition: Vector2; // 上一次的指针位置（画布像素坐标）
+}
+
 const SimulationPage: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const graphCanvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const navigate = useNavigate();
+  const { isDark, toggleTheme, colorBlindSafe, toggleColorBlindSafe } = useTheme();
+  const palette = useMemo(() => createSceneryPalette(isDark, colorBlindSafe), [isDark, colorBlindSafe]);
+  const quantityColors = palette.quantities;
   
   // 模型参数状态
   const [mass, setMass] = useState(1); // kg
   const [angularVelocity, setAngularVelocity] = useState(0.5); // rad/s
+  const [angularAcceleration, setAngularAcceleration] = useState(0); // rad/s²
   const [maxTension, setMaxTension] = useState(5); // N
   const [radius, setRadius] = useState(1.0); // m
+  const [ropeLength, setRopeLength] = useState(1.0); // m，圆锥摆绳长
+  const [carSpeed, setCarSpeed] = useState(15); // m/s
+  const [archRadius, setArchRadius] = useState(50); // m
+  const [dipRadius, setDipRadius] = useState(30); // m
+  const [frictionCoefficient, setFrictionCoefficient] = useState(0.6);
+  const [bankAngleDegrees, setBankAngleDegrees] = useState(0); // °，界面使用角度制
   const [rotationDirection, setRotationDirection] = useState(RotationDirection.CLOCKWISE);
+  const [mode, setMode] = useState(SimulationMode.HORIZONTAL);
+  const [integrator, setIntegrator] = useState(Integrator.ANALYTIC);
+  const [referenceFrame, setReferenceFrame] = useState(ReferenceFrame.GROUND);
+  const [tableEnabled, setTableEnabled] = useState(false);
+  const [tableHeight, setTableHeight] = useState(0.8); // m
+  const [restitution, setRestitution] = useState(0);
+  const [elasticRopeEnabled, setElasticRopeEnabled] = useState(false);
+  const [springConstant, setSpringConstant] = useState(20); // N/m
+  const [naturalLength, setNaturalLength] = useState(1.0); // m
+  const [dragModel, setDragModel] = useState(DragModel.NONE);
+  const [dragCoefficient, setDragCoefficient] = useState(0.5);
+  const [motorEnabled, setMotorEnabled] = useState(false);
+  const [turntableBodies, setTurntableBodies] = useState<TurntableBodyConfig[]>(DEFAULT_TURNTABLE_BODIES);
+  const [orbitCentralBody, setOrbitCentralBody] = useState(OrbitCentralBody.EARTH);
+  const [orbitRadius, setOrbitRadius] = useState(ORBIT_CENTRAL_BODIES[OrbitCentralBody.EARTH].defaultOrbitRadius);
+  const [launchSpeedRatio, setLaunchSpeedRatio] = useState(1);
+  const [keplerRecords, setKeplerRecords] = useState<KeplerRecord[]>([]);
+  const [experimentVariable, setExperimentVariable] = useState(ExperimentVariable.ANGULAR_VELOCITY);
+  const [experimentStartValue, setExperimentStartValue] = useState(EXPERIMENT_VARIABLES[ExperimentVariable.ANGULAR_VELOCITY].defaultStart);
+  const [experimentRate, setExperimentRate] = useState(EXPERIMENT_VARIABLES[ExperimentVariable.ANGULAR_VELOCITY].defaultRate);
+  const [experimentRuns, setExperimentRuns] = useState<ExperimentRun[]>([]);
+  const [cameraView, setCameraView] = useState<CameraView | null>(CameraView.OBLIQUE); // null 表示拖动后的自定义视角
+  const [cameraZoom, setCameraZoom] = useState(1);
+  const [showFreeBodyDiagram, setShowFreeBodyDiagram] = useState(false);
+  const [showForceComponents, setShowForceComponents] = useState(false);
+  const [realisticArrowScaling, setRealisticArrowScaling] = useState(false);
+  const [graphSeries, setGraphSeries] = useState<GraphSeries[]>([
+    GraphSeries.ANGLE, GraphSeries.SPEED, GraphSeries.TENSION, GraphSeries.FRICTION
+  ]);
+  const [graphTimeWindow, setGraphTimeWindow] = useState(10); // s
+  const [visibleTools, setVisibleTools] = useState<MeasuringTool[]>([]);
+  const [showStrobe, setShowStrobe] = useState(false);
+  const [showStrobeVelocity, setShowStrobeVelocity] = useState(false);
+  const [strobeInterval, setStrobeInterval] = useState(0.2); // s
+  const [trailColoring, setTrailColoring] = useState<TrailColoring>(TrailColoring.SOLID);
+  const [fadeTrail, setFadeTrail] = useState(false);
+  const isVertical = mode === SimulationMode.VERTICAL;
+  const isConical = mode === SimulationMode.CONICAL;
+  const isRoadCurve = mode === SimulationMode.ROAD_CURVE;
+  const isHorizontal = mode === SimulationMode.HORIZONTAL;
+  const isTurntable = mode === SimulationMode.TURNTABLE;
+  const isOrbit = mode === SimulationMode.ORBIT;
+  const isBridge = mode === SimulationMode.BRIDGE;
+  const isElastic = isHorizontal && elasticRopeEnabled;
+  const isRotatingView = isHorizontal && referenceFrame === ReferenceFrame.ROTATING;
+  const hasDrag = isHorizontal && !isElastic && dragModel !== DragModel.NONE;
+  const hasAngularRamp = isHorizontal || isTurntable; // ω(t) = ω₀ + αt
+  const usesCamera = !isOrbit && !isBridge;
+  const usesBlockNodes = !isTurntable && !isOrbit && !isBridge;
+  const hasMotionGraph = usesBlockNodes;
+  const radiusRange = isRoadCurve ? ROAD_RADIUS_RANGE : isHorizontal && tableEnabled ? TABLE_RADIUS_RANGE : RADIUS_RANGE;
+  // 汽车转弯没有绳子，用静摩擦力代替拉力；其余场景没有摩擦力曲线
+  const availableGraphSeries = Object.values(GraphSeries).filter(series =>
+    isRoadCurve ? series !== GraphSeries.TENSION : series !== GraphSeries.FRICTION
+  );
+  const visibleGraphSeries = graphSeries.filter(series => availableGraphSeries.includes(series));
+  const availableTrailColorings = Object.values(TrailColoring).filter(coloring =>
+    !isRoadCurve || coloring !== TrailColoring.TENSION
+  );
+  const visibleTrailColoring = availableTrailColorings.includes(trailColoring) ? trailColoring : TrailColoring.SOLID;
   
   // 暂停状态
   const [isPaused, setIsPaused] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [historyIndex, setHistoryIndex] = useState(0); // 暂停时从模型同步，供回放滑块使用
+  const [historyLength, setHistoryLength] = useState(0);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.GIF);
+  const [recordingDuration, setRecordingDuration] = useState(3); // s
+  const [recordingProgress, setRecordingProgress] = useState<number | null>(null); // 0～1，未在录制时为 null
+  const [exportError, setExportError] = useState<string | null>(null); // 最近一次录制或截图失败的原因
+  
+  // 声音反馈，默认关闭
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [soundVolume, setSoundVolume] = useState(0.5); // 0～1
   
-  // 初始值常量
-  const INITIAL_VALUES = {
+  // 初始值常量：各场景在默认值基础上覆盖各自的参数
+  const DEFAULT_VALUES = {
     mass: 1,
     angularVelocity: 0.5,
+    angularAcceleration: 0,
     maxTension: 5,
     radius: 1.0,
-    rotationDirection: RotationDirection.CLOCKWISE
+    ropeLength: 1.0,
+    carSpeed: 15,
+    archRadius: 50,
+    dipRadius: 30,
+    frictionCoefficient: 0.6,
+    bankAngleDegrees: 0,
+    rotationDirection: RotationDirection.CLOCKWISE,
+    referenceFrame: ReferenceFrame.GROUND,
+    tableEnabled: false,
+    tableHeight: 0.8,
+    restitution: 0,
+    elasticRopeEnabled: false,
+    springConstant: 20,
+    naturalLength: 1.0,
+    dragModel: DragModel.NONE,
+    dragCoefficient: 0.5,
+    motorEnabled: false,
+    turntableBodies: DEFAULT_TURNTABLE_BODIES,
+    orbitCentralBody: OrbitCentralBody.EARTH,
+    orbitRadius: ORBIT_CENTRAL_BODIES[OrbitCentralBody.EARTH].defaultOrbitRadius,
+    launchSpeedRatio: 1,
+    cameraView: CameraView.OBLIQUE,
+    cameraZoom: 1
+  };
+  const INITIAL_VALUES: Record<SimulationMode, typeof DEFAULT_VALUES> = {
+    [SimulationMode.HORIZONTAL]: DEFAULT_VALUES,
+    // 竖直平面内绳子需承受重力，最低点要有足够速度才能完成圆周
+    [SimulationMode.VERTICAL]: { ...DEFAULT_VALUES, mass: 0.5, angularVelocity: 6, maxTension: 50, cameraView: CameraView.SIDE },
+    // 圆锥摆：ω 需超过 √(g/L) ≈ 3.13 rad/s 才会张开，ω = 5 rad/s 时拉力达到最大值
+    [SimulationMode.CONICAL]: { ...DEFAULT_VALUES, mass: 0.2, angularVelocity: 4 },
+    // 汽车转弯：μ = 0.6、r = 40 m 的水平弯道最大安全速度约 15.3 m/s
+    [SimulationMode.ROAD_CURVE]: { ...DEFAULT_VALUES, mass: 1000, radius: 40 },
+    // 转盘：ω 从 1 rad/s 匀加速，三个物体依次在 t ≈ 4 s、6 s、9 s 开始滑动
+    [SimulationMode.TURNTABLE]: { ...DEFAULT_VALUES, angularVelocity: 1, angularAcceleration: 0.2 },
+    [SimulationMode.ORBIT]: DEFAULT_VALUES,
+    // 习题第 6 题：1000 kg 的汽车以 72 km/h 通过半径 50 m 的拱桥顶部
+    [SimulationMode.BRIDGE]: { ...DEFAULT_VALUES, mass: 1000, carSpeed: 20 }
   };
   
   // 使用useRef存储模型和场景
   const modelRef = useRef<CircularMotionSimulationModel>(new CircularMotionSimulationModel());
   const sceneRef = useRef<SimulationScene>(new SimulationScene(modelRef.current));
+  const graphRef = useRef<MotionGraphNode>(new MotionGraphNode(modelRef.current));
+  const soundRef = useRef<SimulationSound>(new SimulationSound());
+  const canvasDragRef = useRef<CanvasDrag | null>(null); // 画布上正在进行的拖动
+  const isPausedRef = useRef(isPaused); // 动画循环只创建一次，通过 ref 读取暂停状态
+  const [pointerTarget, setPointerTarget] = useState<CanvasDragTarget | null>(null); // 指针下方可拖动的对象，用于切换光标
+  const [isDraggingCanvas, setIsDraggingCanvas] = useState(false);
+  const [focusedObject, setFocusedObject] = useState<CanvasObject | null>(null); // 键盘焦点所在的画布对象
+  const [stateDescription, setStateDescription] = useState(''); // 画布的文字描述，每秒更新一次
+  const [announcement, setAnnouncement] = useState(''); // aria-live 区域中由屏幕阅读器朗读的提示
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const descriptionId = useId();
   
   // 同步参数到模型
   useEffect(() => {
     modelRef.current.mass = mass;
     modelRef.current.angularVelocity = angularVelocity;
+    modelRef.current.angularAcceleration = hasAngularRamp ? angularAcceleration : 0;
     modelRef.current.maxTension = maxTension;
     modelRef.current.radius = radius;
+    modelRef.current.ropeLength = ropeLength;
+    modelRef.current.carSpeed = carSpeed;
+    modelRef.current.archRadius = archRadius;
+    modelRef.current.dipRadius = dipRadius;
+    modelRef.current.frictionCoefficient = frictionCoefficient;
+    modelRef.current.bankAngle = bankAngleDegrees * Math.PI / 180;
     modelRef.current.rotationDirection = rotationDirection;
-  }, [mass, angularVelocity, maxTension, radius, rotationDirection]);
+    modelRef.current.referenceFrame = referenceFrame;
+    modelRef.current.tableEnabled = tableEnabled;
+    modelRef.current.tableHeight = tableHeight;
+    modelRef.current.restitution = restitution;
+    modelRef.current.elasticRopeEnabled = elasticRopeEnabled;
+    modelRef.current.springConstant = springConstant;
+    modelRef.current.naturalLength = naturalLength;
+    modelRef.current.dragModel = dragModel;
+    modelRef.current.dragCoefficient = dragCoefficient;
+    modelRef.current.motorEnabled = motorEnabled;
+  }, [
+    mass, angularVelocity, angularAcceleration, hasAngularRamp, maxTension, radius, ropeLength,
+    carSpeed, archRadius, dipRadius, frictionCoefficient, bankAngleDegrees, rotationDirection, referenceFrame, tableEnabled, tableHeight, restitution,
+    elasticRopeEnabled, springConstant, naturalLength, dragModel, dragCoefficient, motorEnabled
+  ]);
+  
+  useEffect(() => {
+    modelRef.current.setTurntableBodies(turntableBodies);
+  }, [turntableBodies]);
+  
+  useEffect(() => {
+    modelRef.current.palette = palette;
+  }, [palette]);
+  
+  useEffect(() => {
+    sceneRef.current.setFocusedObject(focusedObject);
+  }, [focusedObject]);
+  
+  // 键盘快捷键在整个页面上有效；处理函数每次渲染时更新，监听只注册一次
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+  
+  // 选择预设视角时转动相机；拖动得到的自定义视角由画布事件直接写入相机
+  useEffect(() => {
+    if (cameraView !== null) {
+      modelRef.current.camera.setView(cameraView);
+    }
+  }, [cameraView]);
+  
+  useEffect(() => {
+    modelRef.current.camera.zoom = cameraZoom;
+  }, [cameraZoom]);
+  
+  useEffect(() => {
+    modelRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+  
+  useEffect(() => {
+    graphRef.current.series = visibleGraphSeries;
+    graphRef.current.timeWindow = graphTimeWindow;
+  }, [visibleGraphSeries, graphTimeWindow]);
+  
+  // 暂停时在运动图像上显示光标，默认位于暂停的时刻
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+    const samples = modelRef.current.motionHistory;
+    graphRef.current.cursorTime = isPaused && samples.length > 0 ? samples[samples.length - 1].time : null;
+  }, [isPaused]);
+  
+  useEffect(() => {
+    modelRef.current.showFreeBodyDiagram = showFreeBodyDiagram;
+    modelRef.current.showForceComponents = showForceComponents;
+    modelRef.current.realisticArrowScaling = realisticArrowScaling;
+  }, [showFreeBodyDiagram, showForceComponents, realisticArrowScaling]);
+  
+  useEffect(() => {
+    const model = modelRef.current;
+    model.showStrobe = showStrobe;
+    model.showStrobeVelocity = showStrobeVelocity;
+    model.strobeInterval = strobeInterval;
+    model.trailColoring = visibleTrailColoring;
+    model.fadeTrail = fadeTrail;
+  }, [showStrobe, showStrobeVelocity, strobeInterval, visibleTrailColoring, fadeTrail]);
+  
+  useEffect(() => {
+    Object.values(MeasuringTool).forEach(tool => sceneRef.current.setToolVisible(tool, visibleTools.includes(tool)));
+  }, [visibleTools]);
+  
+  // 断裂实验结束后记入表格，并把滑块同步到断裂时的半径或质量
+  useEffect(() => {
+    const model = modelRef.current;
+    model.onExperimentFinished = (run) => {
+      setExperimentRuns(runs => [...runs, run]);
+      if (run.variable === ExperimentVariable.RADIUS) {
+        setRadius(run.radius);
+      } else if (run.variable === ExperimentVariable.MASS) {
+        setMass(run.mass);
+      }
+    };
+    return () => {
+      model.onExperimentFinished = null;
+    };
+  }, []);
+  
+  // 在画布上拖动物体改变半径时同步滑块
+  useEffect(() => {
+    const model = modelRef.current;
+    model.onRadiusDragged = setRadius;
+    return () => {
+      model.onRadiusDragged = null;
+    };
+  }, []);
+  
+  // 每转一圈和绳子断裂时发声；离开页面时关闭音频
+  useEffect(() => {
+    const model = modelRef.current;
+    const sound = soundRef.current;
+    model.onRevolution = () => sound.playTick();
+    model.onRopeBroken = () => sound.playSnap();
+    return () => {
+      model.onRevolution = null;
+      model.onRopeBroken = null;
+      sound.dispose();
+    };
+  }, []);
+  
+  // 录制时模型的推进快于真实时间，滴答声的节奏不对，因此静音
+  useEffect(() => {
+    soundRef.current.setEnabled(soundEnabled && recordingProgress === null);
+  }, [soundEnabled, recordingProgress]);
+  
+  useEffect(() => {
+    soundRef.current.setVolume(soundVolume);
+  }, [soundVolume]);
+  
+  // 天体运动：调整中心天体、发射距离或发射速度后重新发射
+  useEffect(() => {
+    modelRef.current.orbitCentralBody = orbitCentralBody;
+    modelRef.current.orbitRadius = orbitRadius * ORBIT_CENTRAL_BODIES[orbitCentralBody].distanceUnit.size;
+    modelRef.current.launchSpeedRatio = launchSpeedRatio;
+    if (modelRef.current.mode === SimulationMode.ORBIT) {
+      modelRef.current.reset();
+    }
+  }, [orbitCentralBody, orbitRadius, launchSpeedRatio, rotationDirection]);
+  
+  // 切换场景后从初始位置重新开始
+  useEffect(() => {
+    modelRef.current.mode = mode;
+    modelRef.current.restoreLayout();
+    modelRef.current.reset();
+  }, [mode]);
+  
+  // 变速圆周运动：调整 ω₀、α 或阻力、电机后，ω(t) 从新的 ω₀ 开始变化
+  useEffect(() => {
+    modelRef.current.restartRamp();
+  }, [angularVelocity, angularAcceleration, dragModel, dragCoefficient, motorEnabled]);
+  
+  // 切换积分方法或调整半径、方向后，数值积分从当前位置的解析解重新开始
+  useEffect(() => {
+    modelRef.current.integrator = integrator;
+    modelRef.current.resyncMotion();
+  }, [integrator, radius, rotationDirection]);
+  
+  // 竖直平面内角速度滑块给出的是最低点的初始条件，修改后重新出发
+  useEffect(() => {
+    if (modelRef.current.mode === SimulationMode.VERTICAL) {
+      modelRef.current.reset();
+    }
+  }, [angularVelocity, radius, rotationDirection]);
   
   // 初始化动画
   useEffect(() => {
@@ -639,135 +561,1419 @@ const SimulationPage: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    canvas.width = 600;
-    canvas.height = 400;
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
     
-    let animationId: number;
+    let lastTimestamp: number | null = null;
+    let lastDescriptionTime = -Infinity;
+    let lastEvent = '';
     
-    const animate = () => {
+    const animate = (timestamp?: number) => {
       // 清空画布
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       
-      // 如果未暂停，更新物理模型
-      if (!isPaused) {
-        sceneRef.current.step(1);
+      // 如果未暂停，按两帧之间的真实时间（s）更新物理模型；暂停时同步回放历史，继续后从下一帧重新计时
+      const model = modelRef.current;
+      if (isPausedRef.current) {
+        lastTimestamp = null;
+        setHistoryIndex(model.historyIndex);
+        setHistoryLength(model.history.length);
+      } else if (timestamp !== undefined) {
+        if (lastTimestamp !== null) {
+          sceneRef.current.step((timestamp - lastTimestamp) / 1000);
+        }
+        lastTimestamp = timestamp;
       }
       
       // 渲染场景
       sceneRef.current.render(ctx);
       
-      animationId = requestAnimationFrame(animate);
+      // 持续音的音高跟随拉力，暂停时静音
+      soundRef.current.setTensionRatio(isPausedRef.current ? null : model.tensionRatio);
+      
+      // 屏幕阅读器：断绳等事件发生时立即朗读，状态描述每秒更新一次
+      const event = model.eventAnnouncement;
+      if (event !== lastEvent) {
+        if (event) setAnnouncement(event);
+        lastEvent = event;
+      }
+      const now = timestamp ?? 0;
+      if (now - lastDescriptionTime >= 1000) {
+        setStateDescription(`${isPausedRef.current ? '已暂停。' : ''}${model.stateDescription}`);
+        lastDescriptionTime = now;
+      }
+      
+      const graphCanvas = graphCanvasRef.current;
+      const graphContext = graphCanvas?.getContext('2d');
+      if (graphCanvas && graphContext) {
+        graphContext.clearRect(0, 0, graphCanvas.width, graphCanvas.height);
+        graphRef.current.render(graphContext);
+      }
+      
+      animationRef.current = requestAnimationFrame(animate);
     };
     
     animate();
     
     return () => {
-      if (animationId) {
-        cancelAnimationFrame(animationId);
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPaused]); // 依赖isPaused，当暂停状态改变时重新创建动画循环
+  }, []);
+  
+  const applyInitialValues = (targetMode: SimulationMode) => {
+    const initialValues = INITIAL_VALUES[targetMode];
+    setMass(initialValues.mass);
+    setAngularVelocity(initialValues.angularVelocity);
+    setAngularAcceleration(initialValues.angularAcceleration);
+    setMaxTension(initialValues.maxTension);
+    setRadius(initialValues.radius);
+    setRopeLength(initialValues.ropeLength);
+    setCarSpeed(initialValues.carSpeed);
+    setArchRadius(initialValues.archRadius);
+    setDipRadius(initialValues.dipRadius);
+    setFrictionCoefficient(initialValues.frictionCoefficient);
+    setBankAngleDegrees(initialValues.bankAngleDegrees);
+    setRotationDirection(initialValues.rotationDirection);
+    setReferenceFrame(initialValues.referenceFrame);
+    setTableEnabled(initialValues.tableEnabled);
+    setTableHeight(initialValues.tableHeight);
+    setRestitution(initialValues.restitution);
+    setElasticRopeEnabled(initialValues.elasticRopeEnabled);
+    setSpringConstant(initialValues.springConstant);
+    setNaturalLength(initialValues.naturalLength);
+    setDragModel(initialValues.dragModel);
+    setDragCoefficient(initialValues.dragCoefficient);
+    setMotorEnabled(initialValues.motorEnabled);
+    setTurntableBodies(initialValues.turntableBodies);
+    setOrbitCentralBody(initialValues.orbitCentralBody);
+    setOrbitRadius(initialValues.orbitRadius);
+    setLaunchSpeedRatio(initialValues.launchSpeedRatio);
+    setCameraView(initialValues.cameraView);
+    setCameraZoom(initialValues.cameraZoom);
+    setKeplerRecords([]);
+    setExperimentRuns([]);
+  };
+  
+  const handleCentralBodyChange = (centralBody: OrbitCentralBody) => {
+    setOrbitCentralBody(centralBody);
+    setOrbitRadius(ORBIT_CENTRAL_BODIES[centralBody].defaultOrbitRadius);
+    setKeplerRecords([]); // 不同中心天体的 T²/a³ 不同，不放在同一张表里
+  };
+  
+  // 记录当前轨道的半长轴和周期，用于验证开普勒第三定律
+  const recordKeplerData = () => {
+    const model = modelRef.current;
+    const { distanceUnit, timeUnit } = model.centralBody;
+    if (!Number.isFinite(model.orbitPeriod)) return;
+    setKeplerRecords(records => [
+      ...records,
+      {
+        semiMajorAxis: model.semiMajorAxis / distanceUnit.size,
+        period: model.orbitPeriod / timeUnit.size,
+        measuredPeriod: model.measuredOrbitPeriod !== null ? model.measuredOrbitPeriod / timeUnit.size : null
+      }
+    ]);
+  };
+  
+  const handleExperimentVariableChange = (variable: ExperimentVariable) => {
+    setExperimentVariable(variable);
+    setExperimentStartValue(EXPERIMENT_VARIABLES[variable].defaultStart);
+    setExperimentRate(EXPERIMENT_VARIABLES[variable].defaultRate);
+  };
+  
+  // 从起始值重新开始，滑块同步为实验条件：增大 ω 时 α 即增大速率，增大 r 或 m 时 ω 保持不变
+  const startExperiment = () => {
+    modelRef.current.startExperiment(experimentVariable, experimentStartValue, experimentRate);
+    setMotorEnabled(true);
+    if (experimentVariable === ExperimentVariable.ANGULAR_VELOCITY) {
+      setAngularVelocity(experimentStartValue);
+      setAngularAcceleration(experimentRate);
+    } else {
+      setAngularAcceleration(0);
+      if (experimentVariable === ExperimentVariable.RADIUS) {
+        setRadius(experimentStartValue);
+      } else {
+        setMass(experimentStartValue);
+      }
+    }
+    setIsPaused(false);
+  };
+  
+  const updateTurntableBody = (index: number, changes: Partial<TurntableBodyConfig>) => {
+    setTurntableBodies(bodies => bodies.map((body, i) => (i === index ? { ...body, ...changes } : body)));
+  };
+  
+  // 只拟合与最近一次实验最大拉力相同的数据
+  const latestRun = experimentRuns.length > 0 ? experimentRuns[experimentRuns.length - 1] : null;
+  const breakingFit = latestRun
+    ? fitBreakingRelation(experimentRuns.filter(run => run.maxTension === latestRun.maxTension))
+    : null;
+  // 弹性绳的半径由劲度系数决定，不能直接增大
+  const canStartExperiment = !(isElastic && experimentVariable === ExperimentVariable.RADIUS);
   
   const handleReset = () => {
-    // 重置模型状态
+    // 重置模型状态和拖动过的圆心、起始位置
+    modelRef.current.restoreLayout();
     modelRef.current.reset();
     
     // 重置参数到初始值
-    setMass(INITIAL_VALUES.mass);
-    setAngularVelocity(INITIAL_VALUES.angularVelocity);
-    setMaxTension(INITIAL_VALUES.maxTension);
-    setRadius(INITIAL_VALUES.radius);
-    setRotationDirection(INITIAL_VALUES.rotationDirection);
+    applyInitialValues(mode);
     
     // 确保暂停状态为false
     setIsPaused(false);
   };
   
+  // 暂停时逐帧前进或后退、拖动滑块回到历史中的某一时刻；运动图像的光标随之移到该时刻
+  const handleRewind = (index: number) => {
+    const model = modelRef.current;
+    model.rewindTo(index);
+    graphRef.current.cursorTime = model.elapsedTime;
+  };
+  
+  const handleStepForward = () => {
+    const model = modelRef.current;
+    model.stepFrame();
+    graphRef.current.cursorTime = model.elapsedTime;
+  };
+  
+  // 导出用的一帧：背景、场景和下方的参数说明，scale 为放大倍数
+  const drawExportFrame = (context: CanvasRenderingContext2D, scale: number) => {
+    const palette = modelRef.current.palette;
+    context.save();
+    context.scale(scale, scale);
+    context.fillStyle = palette.background;
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT + CAPTION_HEIGHT);
+    sceneRef.current.render(context);
+    
+    context.fillStyle = palette.plane;
+    context.fillRect(0, CANVAS_HEIGHT, CANVAS_WIDTH, CAPTION_HEIGHT);
+    context.fillStyle = palette.text;
+    context.font = '14px Arial';
+    context.fillText(
+      `m = ${mass.toFixed(2)} kg    ω = ${angularVelocity.toFixed(2)} rad/s    ` +
+      `r = ${radius.toFixed(2)} m    最大拉力 = ${maxTension.toFixed(1)} N`,
+      10,
+      CANVAS_HEIGHT + 19
+    );
+    context.restore();
+  };
+  
+  // 从当前时刻起录制 recordingDuration 秒：录制期间暂停实时动画，由这里逐帧推进模型，结束后恢复原来的暂停状态
+  const handleRecord = async () => {
+    const model = modelRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT + CAPTION_HEIGHT;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+    
+    const wasPaused = isPaused;
+    // 立即停止动画循环，不等 isPaused 的副作用，避免录制开始后动画循环再推进模型一步
+    isPausedRef.current = true;
+    setIsPaused(true);
+    const frameCount = Math.round(recordingDuration * RECORDING_FRAME_RATE);
+    const stepsPerFrame = Math.round(1 / (RECORDING_FRAME_RATE * model.fixedTimeStep));
+    const gif = new GifEncoder(canvas.width, canvas.height, Math.round(100 / RECORDING_FRAME_RATE));
+    const zip = new ZipArchive();
+    setExportError(null);
+    try {
+      for (let frame = 0; frame < frameCount; frame++) {
+        setRecordingProgress(frame / frameCount);
+        drawExportFrame(context, 1);
+        if (exportFormat === ExportFormat.GIF) {
+          gif.addFrame(context.getImageData(0, 0, canvas.width, canvas.height));
+        } else {
+          const png = await canvasToBlob(canvas);
+          zip.addFile(`frame-${String(frame + 1).padStart(3, '0')}.png`, new Uint8Array(await png.arrayBuffer()));
+        }
+        for (let step = 0; step < stepsPerFrame; step++) {
+          model.stepFrame();
+        }
+        // 让出主线程，使进度和画布得以刷新
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+      downloadBlob(
+        exportFormat === ExportFormat.GIF ? gif.finish() : zip.finish(),
+        exportFormat === ExportFormat.GIF ? 'circular-motion.gif' : 'circular-motion-frames.zip'
+      );
+    } catch (error) {
+      setExportError(`录制失败：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRecordingProgress(null);
+      setIsPaused(wasPaused);
+    }
+  };
+  
+  const handleSnapshot = async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH * SNAPSHOT_SCALE;
+    canvas.height = (CANVAS_HEIGHT + CAPTION_HEIGHT) * SNAPSHOT_SCALE;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    drawExportFrame(context, SNAPSHOT_SCALE);
+    setExportError(null);
+    try {
+      downloadBlob(await canvasToBlob(canvas), 'circular-motion.png');
+    } catch (error) {
+      setExportError(`截图失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  
+  const handleModeChange = (newMode: SimulationMode) => {
+    setMode(newMode);
+    applyInitialValues(newMode);
+  };
+  
+  // 放上桌面时把超出桌边的半径缩小到桌面允许的最大值
+  const handleTableToggle = (enabled: boolean) => {
+    setTableEnabled(enabled);
+    if (enabled) setRadius(current => Math.min(current, TABLE_RADIUS_RANGE.max));
+  };
+  
+  // 指针位置换成画布像素坐标（画布的显示尺寸可能与像素尺寸不同）
+  const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Vector2 => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height
+    };
+  };
+  
+  // 命中检测决定拖动的对象：测量工具在最上层，物体只在圆周运动中可拖动（只能设定角度的场景须先暂停），其余空白处旋转相机
+  const pickDragTarget = (hit: SceneryNode | null): CanvasDragTarget | null => {
+    const model = modelRef.current;
+    if (hit instanceof ToolButtonNode) return CanvasDragTarget.BUTTON;
+    if (hit instanceof ToolNode) return CanvasDragTarget.TOOL;
+    if (
+      hit instanceof SimulationBlockNode
+      && model.state === SimulationState.NORMAL_CIRCULAR_MOTION
+      && (model.hasDraggableRadius || isPaused)
+    ) {
+      return CanvasDragTarget.BLOCK;
+    }
+    if (hit instanceof SimulationCenterNode) return CanvasDragTarget.CENTER;
+    return usesCamera ? CanvasDragTarget.CAMERA : null;
+  };
+  
+  // 在画布上拖动测量工具、拖动物体改变半径和起始角度、拖动圆心平移场景，或在空白处拖动绕场景旋转相机；指针事件同时支持鼠标和触摸
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e);
+    const hit = sceneRef.current.hitTest(point);
+    const target = pickDragTarget(hit);
+    setPointerTarget(target);
+    if (!target) return;
+    if (hit instanceof ToolButtonNode) {
+      hit.press();
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    canvasDragRef.current = { target, tool: hit instanceof ToolNode ? hit : null, lastPosition: point };
+    setIsDraggingCanvas(true);
+  };
+  
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getCanvasPoint(e);
+    const drag = canvasDragRef.current;
+    if (!drag) {
+      setPointerTarget(pickDragTarget(sceneRef.current.hitTest(point)));
+      return;
+    }
+    
+    const model = modelRef.current;
+    if (drag.tool) {
+      drag.tool.dragTo(point, drag.lastPosition);
+    } else if (drag.target === CanvasDragTarget.BLOCK) {
+      model.dragBlockTo(point, isPaused);
+    } else if (drag.target === CanvasDragTarget.CENTER) {
+      const canvas = e.currentTarget;
+      model.dragCenterTo({
+        x: Math.min(Math.max(point.x, 0), canvas.width),
+        y: Math.min(Math.max(point.y, 0), canvas.height)
+      });
+    } else {
+      model.camera.orbit(point.x - drag.lastPosition.x, point.y - drag.lastPosition.y);
+      setCameraView(null);
+    }
+    drag.lastPosition = point;
+  };
+  
+  const handleCanvasPointerUp = () => {
+    canvasDragRef.current = null;
+    setIsDraggingCanvas(false);
+  };
+  
+  const toggleMeasuringTool = (tool: MeasuringTool, visible: boolean) => {
+    setVisibleTools(current => visible ? [...current, tool] : current.filter(item => item !== tool));
+  };
+  
+  const toggleGraphSeries = (series: GraphSeries, visible: boolean) => {
+    setGraphSeries(current => visible ? [...current, series] : current.filter(item => item !== series));
+  };
+  
+  // 暂停时在运动图像上按下或移动指针，光标随之移动
+  const handleGraphPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isPaused) return;
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    graphRef.current.moveCursorTo((e.clientX - rect.left) * canvas.width / rect.width);
+  };
+  
+  const handleCanvasPointerLeave = () => {
+    if (!canvasDragRef.current) setPointerTarget(null);
+  };
+  
+  // 相同的提示再次出现时加不换行空格，使屏幕阅读器重新朗读
+  const announce = (message: string) => {
+    setAnnouncement(current => current === message ? `${message}\u00a0` : message);
+  };
+  
+  const describeState = () => `${isPaused ? '已暂停。' : ''}${modelRef.current.stateDescription}`;
+  
+  // 可用键盘操作的画布对象，按 Tab 顺序排列
+  const focusableObjects: CanvasObject[] = [
+    ...(usesBlockNodes ? [CanvasObject.BLOCK] : []),
+    ...(usesCamera ? [CanvasObject.CENTER] : []),
+    ...visibleTools.map(tool => TOOL_CANVAS_OBJECTS[tool])
+  ];
+  
+  // 画布对象获得焦点时的方向键操作，每次移动 10 像素，物体沿圆周每次转过 15°
+  const handleCanvasObjectKeyDown = (object: CanvasObject, e: React.KeyboardEvent<HTMLButtonElement>) => {
+    const model = modelRef.current;
+    const scene = sceneRef.current;
+    const dx = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+    const dy = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+    let handled = dx !== 0 || dy !== 0;
+    
+    if (object === CanvasObject.BLOCK) {
+      if (!handled) return;
+      // 屏幕上 y 轴向下，左方向键使物体逆时针转动
+      model.nudgeBlock(-dx, -dy, isPaused);
+      if (dx !== 0 && !isPaused) {
+        announce('请先暂停，再用左右方向键沿圆周移动物体');
+      } else {
+        announce(model.stateDescription);
+      }
+    } else if (object === CanvasObject.CENTER) {
+      if (!handled) return;
+      model.dragCenterTo({
+        x: Math.min(Math.max(model.centerPosition.x + dx * CENTER_SNAP_PIXELS, 0), CANVAS_WIDTH),
+        y: Math.min(Math.max(model.centerPosition.y + dy * CENTER_SNAP_PIXELS, 0), CANVAS_HEIGHT)
+      });
+      announce(`圆心位于 (${model.centerPosition.x}, ${model.centerPosition.y}) 像素`);
+    } else if (object === CanvasObject.RULER) {
+      if (!handled) return;
+      if (e.shiftKey) {
+        scene.rotateTool(MeasuringTool.RULER, dx * 5 * Math.PI / 180);
+      } else {
+        scene.moveTool(MeasuringTool.RULER, dx * 10, dy * 10);
+      }
+    } else if (object === CanvasObject.STOPWATCH) {
+      if (e.key === 'Enter') {
+        model.toggleStopwatch();
+        announce(model.stopwatchRunning ? '秒表开始计时' : `秒表停止，读数 ${model.stopwatchTime.toFixed(2)} s`);
+        handled = true;
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        model.resetStopwatch();
+        announce('秒表已清零');
+        handled = true;
+      } else if (handled) {
+        scene.moveTool(MeasuringTool.STOPWATCH, dx * 10, dy * 10);
+      }
+    } else {
+      if (dx === 0) return;
+      scene.rotateTool(MeasuringTool.PROTRACTOR, dx * (e.shiftKey ? 10 : 1) * Math.PI / 180);
+      announce(`量角器读数 ${scene.protractorReading.toFixed(0)}°`);
+    }
+    
+    if (handled) e.preventDefault();
+  };
+  
+  // 页面级快捷键：空格或 K 暂停/继续，Alt + Shift + R 重置，暂停时 . 和 , 逐帧前进或后退，I 朗读当前状态，
+  // 参数滑块旁标注的字母键把焦点移到该滑块
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey) return;
+    const target = e.target as HTMLElement;
+    const isTextField = target.isContentEditable
+      || target.tagName === 'TEXTAREA'
+      || target.tagName === 'SELECT'
+      || (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type));
+    if (isTextField) return;
+    
+    const key = e.key.toLowerCase();
+    if (e.altKey) {
+      if (e.shiftKey && e.code === 'KeyR') {
+        handleReset();
+        announce('仿真已重置');
+        e.preventDefault();
+      }
+      return;
+    }
+    
+    if (key === ' ' || key === 'k') {
+      // 按钮、复选框等控件上的空格保留原来的作用
+      if (key === ' ' && (['BUTTON', 'INPUT', 'SUMMARY', 'A'].includes(target.tagName))) return;
+      if (recordingProgress !== null) return;
+      setIsPaused(!isPaused);
+      announce(isPaused ? '继续运行' : '已暂停');
+    } else if ((key === '.' || key === ',') && isPaused) {
+      if (key === '.') {
+        handleStepForward();
+      } else {
+        handleRewind(modelRef.current.historyIndex - 1);
+      }
+      announce(modelRef.current.stateDescription);
+    } else if (key === 'i') {
+      announce(describeState());
+    } else {
+      const slider = document.querySelector<HTMLInputElement>(`input[type="range"][data-shortcut="${key}"]`);
+      if (!slider) return;
+      slider.focus();
+    }
+    e.preventDefault();
+  };
+  
+  const canvasCursor = pointerTarget === null
+    ? ''
+    : isDraggingCanvas && CANVAS_DRAG_CURSORS[pointerTarget] === 'cursor-grab' ? 'cursor-grabbing' : CANVAS_DRAG_CURSORS[pointerTarget];
+  
   return (
-    <div className="min-h-screen bg-gray-50 flex">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex">
+      <ThemeToggle
+        isDark={isDark}
+        onToggle={toggleTheme}
+        colorBlindSafe={colorBlindSafe}
+        onToggleColorBlindSafe={toggleColorBlindSafe}
+      />
       {/* 左侧参数控制面板 */}
-      <div className="w-1/3 bg-white p-6 border-r border-gray-200">
-        <h1 className="text-2xl font-bold text-gray-800 mb-6">圆周运动仿真</h1>
+      <div className="w-1/3 bg-white dark:bg-gray-800 p-6 border-r border-gray-200 dark:border-gray-700">
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-6">圆周运动仿真</h1>
         
         <div className="space-y-4">
-          <ParameterControl
-            label="质量 (m)"
-            value={mass}
-            min={0.01}
-            max={10}
-            step={0.01}
-            unit="kg"
-            onChange={setMass}
-          />
-          
-          <ParameterControl
-            label="角速度 (ω)"
-            value={angularVelocity}
-            min={0}
-            max={2}
-            step={0.01}
-            unit="rad/s"
-            onChange={setAngularVelocity}
-          />
-          
-          <ParameterControl
-            label="最大拉力 (F)"
-            value={maxTension}
-            min={0}
-            max={10}
-            step={0.1}
-            unit="N"
-            onChange={setMaxTension}
-          />
-          
-          <ParameterControl
-            label="半径 (r)"
-            value={radius}
-            min={0}
-            max={10}
-            step={0.1}
-            unit="m"
-            onChange={setRadius}
-          />
-          
-          {/* 运行方向选择 */}
-          <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-            <h3 className="font-medium text-gray-800 mb-3">运行方向</h3>
+          {/* 场景选择 */}
+          <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">仿真场景</h3>
             <div className="space-y-2">
               <label className="flex items-center cursor-pointer">
                 <input
                   type="radio"
-                  name="rotationDirection"
-                  value={RotationDirection.CLOCKWISE}
-                  checked={rotationDirection === RotationDirection.CLOCKWISE}
-                  onChange={(e) => setRotationDirection(e.target.value as RotationDirection)}
+                  name="simulationMode"
+                  value={SimulationMode.HORIZONTAL}
+                  checked={mode === SimulationMode.HORIZONTAL}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
+                  className="mr-2 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">水平面圆周运动</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="simulationMode"
+                  value={SimulationMode.VERTICAL}
+                  checked={mode === SimulationMode.VERTICAL}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
+                  className="mr-2 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">竖直平面圆周运动（绳模型）</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="simulationMode"
+                  value={SimulationMode.CONICAL}
+                  checked={mode === SimulationMode.CONICAL}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
+                  className="mr-2 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">圆锥摆</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="simulationMode"
+                  value={SimulationMode.ROAD_CURVE}
+                  checked={mode === SimulationMode.ROAD_CURVE}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
+                  className="mr-2 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">汽车转弯</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="simulationMode"
+                  value={SimulationMode.TURNTABLE}
+                  checked={mode === SimulationMode.TURNTABLE}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
+                  className="mr-2 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">转盘上的多个物体</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="simulationMode"
+                  value={SimulationMode.ORBIT}
+                  checked={mode === SimulationMode.ORBIT}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
                   className="mr-2 text-blue-600"
                 />
-                <span className="text-gray-700">顺时针</span>
+                <span className="text-gray-700 dark:text-gray-200">天体运动（万有引力）</span>
               </label>
               <label className="flex items-center cursor-pointer">
                 <input
                   type="radio"
-                  name="rotationDirection"
-                  value={RotationDirection.COUNTERCLOCKWISE}
-                  checked={rotationDirection === RotationDirection.COUNTERCLOCKWISE}
-                  onChange={(e) => setRotationDirection(e.target.value as RotationDirection)}
+                  name="simulationMode"
+                  value={SimulationMode.BRIDGE}
+                  checked={mode === SimulationMode.BRIDGE}
+                  onChange={(e) => handleModeChange(e.target.value as SimulationMode)}
                   className="mr-2 text-blue-600"
                 />
-                <span className="text-gray-700">逆时针</span>
+                <span className="text-gray-700 dark:text-gray-200">拱桥与凹形路面</span>
+              </label>
+            </div>
+          </div>
+          
+          {!isTurntable && !isOrbit && (
+            <ParameterControl
+              label="质量 (m)"
+              shortcut="m"
+              value={mass}
+              min={isRoadCurve || isBridge ? 500 : 0.01}
+              max={isRoadCurve || isBridge ? 3000 : 10}
+              step={isRoadCurve || isBridge ? 50 : 0.01}
+              unit="kg"
+              onChange={setMass}
+            />
+          )}
+          
+          {isOrbit ? (
+            <ParameterControl
+              label="发射速度 (v/v₁)"
+              shortcut="v"
+              value={launchSpeedRatio}
+              min={0.5}
+              max={1.6}
+              step={0.01}
+              unit="倍"
+              onChange={setLaunchSpeedRatio}
+            />
+          ) : isRoadCurve || isBridge ? (
+            <ParameterControl
+              label="车速 (v)"
+              shortcut="v"
+              value={carSpeed}
+              min={0}
+              max={40}
+              step={0.5}
+              unit="m/s"
+              onChange={setCarSpeed}
+            />
+          ) : (
+            <ParameterControl
+              label={isVertical ? '最低点角速度 (ω₀)' : hasAngularRamp && angularAcceleration !== 0 ? '初始角速度 (ω₀)' : '角速度 (ω)'}
+              shortcut="w"
+              value={angularVelocity}
+              min={0}
+              max={isVertical ? 10 : isConical ? 8 : isTurntable ? 4 : 2}
+              step={0.01}
+              unit="rad/s"
+              onChange={setAngularVelocity}
+            />
+          )}
+          
+          {hasAngularRamp && (
+            <ParameterControl
+              label="角加速度 (α)"
+              shortcut="a"
+              value={angularAcceleration}
+              min={-1}
+              max={1}
+              step={0.01}
+              unit="rad/s²"
+              onChange={setAngularAcceleration}
+            />
+          )}
+          
+          {isRoadCurve ? (
+            <>
+              <ParameterControl
+                label="摩擦因数 (μ)"
+                shortcut="u"
+                value={frictionCoefficient}
+                min={0}
+                max={1.2}
+                step={0.01}
+                unit=""
+                onChange={setFrictionCoefficient}
+              />
+              <ParameterControl
+                label="路面倾角 (β)"
+                shortcut="b"
+                value={bankAngleDegrees}
+                min={0}
+                max={45}
+                step={1}
+                unit="°"
+                onChange={setBankAngleDegrees}
+              />
+            </>
+          ) : !isTurntable && !isOrbit && !isBridge && (
+            <ParameterControl
+              label="最大拉力 (F)"
+              shortcut="f"
+              value={maxTension}
+              min={0}
+              max={isVertical ? 100 : 10}
+              step={0.1}
+              unit="N"
+              onChange={setMaxTension}
+            />
+          )}
+          
+          {isConical ? (
+            <ParameterControl
+              label="绳长 (L)"
+              shortcut="l"
+              value={ropeLength}
+              min={0.1}
+              max={1.5}
+              step={0.05}
+              unit="m"
+              onChange={setRopeLength}
+            />
+          ) : isBridge ? (
+            <>
+              <ParameterControl
+                label="拱桥半径 (R₁)"
+                value={archRadius}
+                min={10}
+                max={80}
+                step={1}
+                unit="m"
+                onChange={setArchRadius}
+              />
+              <ParameterControl
+                label="凹形路面半径 (R₂)"
+                value={dipRadius}
+                min={10}
+                max={80}
+                step={1}
+                unit="m"
+                onChange={setDipRadius}
+              />
+            </>
+          ) : isOrbit ? (
+            <>
+              <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">中心天体</h3>
+                <div className="space-y-2">
+                  {Object.values(OrbitCentralBody).map((value) => (
+                    <label key={value} className="flex items-center cursor-pointer">
+                      <input
+                        type="radio"
+                        name="orbitCentralBody"
+                        value={value}
+                        checked={orbitCentralBody === value}
+                        onChange={(e) => handleCentralBodyChange(e.target.value as OrbitCentralBody)}
+                        className="mr-2 text-blue-600"
+                      />
+                      <span className="text-gray-700 dark:text-gray-200">
+                        {ORBIT_CENTRAL_BODIES[value].name}（M = {ORBIT_CENTRAL_BODIES[value].mass.toExponential(2)} kg）
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <ParameterControl
+                label="发射点到中心距离 (r)"
+                shortcut="r"
+                value={orbitRadius}
+                min={ORBIT_CENTRAL_BODIES[orbitCentralBody].minOrbitRadius}
+                max={ORBIT_CENTRAL_BODIES[orbitCentralBody].maxOrbitRadius}
+                step={orbitCentralBody === OrbitCentralBody.EARTH ? 100 : 0.05}
+                unit={ORBIT_CENTRAL_BODIES[orbitCentralBody].distanceUnit.label}
+                onChange={setOrbitRadius}
+              />
+            </>
+          ) : isTurntable ? (
+            <div className="space-y-3">
+              {turntableBodies.map((body, index) => (
+                <div key={index} className="bg-gray-50 dark:bg-gray-900 p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium" style={{ color: palette.turntableBodies[index % palette.turntableBodies.length] }}>
+                      物体{index + 1}
+                    </h3>
+                    {turntableBodies.length > 1 && (
+                      <button
+                        onClick={() => setTurntableBodies(bodies => bodies.filter((_, i) => i !== index))}
+                        className="text-sm text-red-600 dark:text-red-400 hover:text-red-700"
+                      >
+                        移除
+                      </button>
+                    )}
+                  </div>
+                  <ParameterControl
+                    label="到转轴距离 (r)"
+                    value={body.radius}
+                    min={0.1}
+                    max={2.4}
+                    step={0.05}
+                    unit="m"
+                    onChange={(value) => updateTurntableBody(index, { radius: value })}
+                  />
+                  <ParameterControl
+                    label="质量 (m)"
+                    value={body.mass}
+                    min={0.1}
+                    max={5}
+                    step={0.1}
+                    unit="kg"
+                    onChange={(value) => updateTurntableBody(index, { mass: value })}
+                  />
+                  <ParameterControl
+                    label="摩擦因数 (μ)"
+                    value={body.frictionCoefficient}
+                    min={0.05}
+                    max={1}
+                    step={0.01}
+                    unit=""
+                    onChange={(value) => updateTurntableBody(index, { frictionCoefficient: value })}
+                  />
+                </div>
+              ))}
+              {turntableBodies.length < MAX_TURNTABLE_BODIES && (
+                <button
+                  onClick={() => setTurntableBodies(bodies => [...bodies, { radius: 1.2, mass: 1, frictionCoefficient: 0.5 }])}
+                  className="w-full px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors font-medium"
+                >
+                  添加物体
+                </button>
+              )}
+            </div>
+          ) : isElastic ? (
+            <>
+              <ParameterControl
+                label="劲度系数 (k)"
+                value={springConstant}
+                min={1}
+                max={100}
+                step={1}
+                unit="N/m"
+                onChange={setSpringConstant}
+              />
+              <ParameterControl
+                label="原长 (L₀)"
+                value={naturalLength}
+                min={0.2}
+                max={2}
+                step={0.05}
+                unit="m"
+                onChange={setNaturalLength}
+              />
+            </>
+          ) : (
+            <ParameterControl
+              label={isRoadCurve ? '弯道半径 (r)' : '半径 (r)'}
+              shortcut="r"
+              value={radius}
+              {...radiusRange}
+              unit="m"
+              onChange={setRadius}
+            />
+          )}
+          
+          {/* 弹性绳与桌面 */}
+          {isHorizontal && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={elasticRopeEnabled}
+                  onChange={(e) => setElasticRopeEnabled(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="font-medium text-gray-800 dark:text-gray-100">弹性绳（受力伸长，半径随 ω 变化）</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tableEnabled}
+                  onChange={(e) => handleTableToggle(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="font-medium text-gray-800 dark:text-gray-100">在桌面上运动（桌面有边缘和高度）</span>
+              </label>
+            </div>
+          )}
+          
+          {isHorizontal && tableEnabled && (
+            <>
+              <ParameterControl
+                label="桌面高度 (h)"
+                value={tableHeight}
+                min={0.2}
+                max={1.5}
+                step={0.05}
+                unit="m"
+                onChange={setTableHeight}
+              />
+              <ParameterControl
+                label="恢复系数 (e)"
+                value={restitution}
+                min={0}
+                max={0.9}
+                step={0.05}
+                unit=""
+                onChange={setRestitution}
+              />
+            </>
+          )}
+          
+          {/* 运行方向选择 */}
+          {!isBridge && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">运行方向</h3>
+              <div className="space-y-2">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="rotationDirection"
+                    value={RotationDirection.CLOCKWISE}
+                    checked={rotationDirection === RotationDirection.CLOCKWISE}
+                    onChange={(e) => setRotationDirection(e.target.value as RotationDirection)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">顺时针</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="rotationDirection"
+                    value={RotationDirection.COUNTERCLOCKWISE}
+                    checked={rotationDirection === RotationDirection.COUNTERCLOCKWISE}
+                    onChange={(e) => setRotationDirection(e.target.value as RotationDirection)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">逆时针</span>
+                </label>
+              </div>
+            </div>
+          )}
+          
+          {/* 相机视角 */}
+          {usesCamera && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">视角</h3>
+              <div className="space-y-2">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="cameraView"
+                    value={CameraView.TOP}
+                    checked={cameraView === CameraView.TOP}
+                    onChange={(e) => setCameraView(e.target.value as CameraView)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">{CAMERA_VIEWS[CameraView.TOP].label}</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="cameraView"
+                    value={CameraView.SIDE}
+                    checked={cameraView === CameraView.SIDE}
+                    onChange={(e) => setCameraView(e.target.value as CameraView)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">{CAMERA_VIEWS[CameraView.SIDE].label}</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="cameraView"
+                    value={CameraView.OBLIQUE}
+                    checked={cameraView === CameraView.OBLIQUE}
+                    onChange={(e) => setCameraView(e.target.value as CameraView)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">{CAMERA_VIEWS[CameraView.OBLIQUE].label}</span>
+                </label>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                {cameraView === null ? '当前为自定义视角；' : ''}在画布空白处拖动可旋转视角，拖动物体可改变半径（暂停时还可设定起始位置），拖动圆心可平移画面
+              </div>
+              <div className="mt-3">
+                <ParameterControl
+                  label="缩放"
+                  value={cameraZoom}
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  unit="×"
+                  onChange={setCameraZoom}
+                />
+              </div>
+            </div>
+          )}
+          
+          {/* 受力分析图与矢量比例 */}
+          {!isTurntable && !isOrbit && !isBridge && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-1">受力分析</h3>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showFreeBodyDiagram}
+                  onChange={(e) => setShowFreeBodyDiagram(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700 dark:text-gray-200">显示受力分析图（各力按同一比例尺）</span>
+              </label>
+              {showFreeBodyDiagram && (
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showForceComponents}
+                    onChange={(e) => setShowForceComponents(e.target.checked)}
+                    className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">分解为径向分量 ₙ 和切向分量 ₜ</span>
+                </label>
+              )}
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={realisticArrowScaling}
+                  onChange={(e) => setRealisticArrowScaling(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700 dark:text-gray-200">画布上的箭头按真实比例（不限制长度）</span>
               </label>
             </div>
+          )}
+          
+          {/* 测量工具 */}
+          <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+            <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-1">测量工具</h3>
+            {Object.values(MeasuringTool).map(tool => (
+              <label key={tool} className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visibleTools.includes(tool)}
+                  onChange={(e) => toggleMeasuringTool(tool, e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700 dark:text-gray-200">{MEASURING_TOOL_LABELS[tool]}</span>
+              </label>
+            ))}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              拖动工具可移动位置，拖动刻度尺右端的圆点可旋转尺子，拖动量角器指针末端的圆点读取角度；秒表按仿真时间计时。
+              {usesCamera && '斜视图中长度和角度有透视压缩，请在俯视图或侧视图中测量。'}
+            </p>
+          </div>
+          
+          {/* 声音反馈 */}
+          <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+            <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-1">声音</h3>
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={soundEnabled}
+                onChange={(e) => setSoundEnabled(e.target.checked)}
+                className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span className="text-gray-700 dark:text-gray-200">开启声音</span>
+            </label>
+            {soundEnabled && (
+              <ParameterControl
+                label="音量"
+                value={soundVolume}
+                min={0}
+                max={1}
+                step={0.05}
+                unit=""
+                onChange={setSoundVolume}
+              />
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              每转一圈响一声滴答，可以听出周期；绳子受拉时有持续音，拉力越接近最大拉力音调越高、越响；绳子断裂时发出“啪”的一声。录制时自动静音。
+            </p>
           </div>
           
-          <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-            <h3 className="font-medium text-blue-800 mb-2">物理提示</h3>
-            <div className="text-sm text-blue-700 space-y-1">
-              <div>向心力 = m × ω² × r</div>
-              <div>当向心力 ＞ 最大拉力时，绳子断裂</div>
-              <div>断裂后物体沿切线方向匀速运动</div>
+          {/* 观察参考系选择 */}
+          {isHorizontal && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">观察参考系</h3>
+              <div className="space-y-2">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="referenceFrame"
+                    value={ReferenceFrame.GROUND}
+                    checked={referenceFrame === ReferenceFrame.GROUND}
+                    onChange={(e) => setReferenceFrame(e.target.value as ReferenceFrame)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">地面参考系</span>
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="referenceFrame"
+                    value={ReferenceFrame.ROTATING}
+                    checked={referenceFrame === ReferenceFrame.ROTATING}
+                    onChange={(e) => setReferenceFrame(e.target.value as ReferenceFrame)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">随物体转动的参考系</span>
+                </label>
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">切换参考系时，已记录的轨迹按所选参考系重新显示</div>
+            </div>
+          )}
+          
+          {/* 空气阻力与电机 */}
+          {isHorizontal && !isElastic && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">空气阻力与电机</h3>
+              <div className="space-y-2">
+                {Object.values(DragModel).map((value) => (
+                  <label key={value} className="flex items-center cursor-pointer">
+                    <input
+                      type="radio"
+                      name="dragModel"
+                      value={value}
+                      checked={dragModel === value}
+                      onChange={(e) => setDragModel(e.target.value as DragModel)}
+                      className="mr-2 text-blue-600"
+                    />
+                    <span className="text-gray-700 dark:text-gray-200">{DRAG_MODEL_LABELS[value]}</span>
+                  </label>
+                ))}
+              </div>
+              {hasDrag && (
+                <div className="space-y-3 mt-3">
+                  <ParameterControl
+                    label={dragModel === DragModel.LINEAR ? '阻力系数 (b)' : '阻力系数 (c)'}
+                    value={dragCoefficient}
+                    min={0}
+                    max={2}
+                    step={0.01}
+                    unit={dragModel === DragModel.LINEAR ? 'N·s/m' : 'N·s²/m²'}
+                    onChange={setDragCoefficient}
+                  />
+                  <label className="flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={motorEnabled}
+                      onChange={(e) => setMotorEnabled(e.target.checked)}
+                      className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-gray-700 dark:text-gray-200">电机驱动（维持 ω = ω₀ + αt）</span>
+                  </label>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">画布右上角显示动能、电机做功和阻力耗散随时间的变化</div>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* 数值积分方法选择 */}
+          {((isHorizontal && !isElastic) || isVertical) && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-3">数值积分方法</h3>
+              <div className="space-y-2">
+                {Object.values(Integrator).map((value) => (
+                  <label key={value} className="flex items-center cursor-pointer">
+                    <input
+                      type="radio"
+                      name="integrator"
+                      value={value}
+                      checked={integrator === value}
+                      onChange={(e) => setIntegrator(e.target.value as Integrator)}
+                      className="mr-2 text-blue-600"
+                    />
+                    <span className="text-gray-700 dark:text-gray-200">{INTEGRATOR_LABELS[value]}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-2">画布左下角实时显示能量和半径的偏差</div>
             </div>
+          )}
+          
+          <div className="bg-blue-50 dark:bg-blue-900/40 p-4 rounded-lg border border-blue-200 dark:border-blue-800">
+            <h3 className="font-medium text-blue-800 dark:text-blue-200 mb-2">物理提示</h3>
+            {isVertical ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>拉力 T = mv²/r + mg·cosθ（θ 从最低点量起）</div>
+                <div>速度由机械能守恒：v² = v₀² - 2gh</div>
+                <div>最高点 v ＜ √(gr) 时拉力降为零，绳子松弛，物体做抛体运动</div>
+                <div>最低点拉力最大，超过最大拉力时绳子断裂</div>
+              </div>
+            ) : isRoadCurve ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>水平弯道：静摩擦力提供向心力，v_max = √(μgr)</div>
+                <div>倾斜弯道：v = √(gr·tanβ) 时无需摩擦力</div>
+                <div>v_max² = gr(sinβ + μcosβ) / (cosβ - μsinβ)</div>
+                <div>所需静摩擦力 ＞ μN 时，车辆向外侧滑</div>
+              </div>
+            ) : isBridge ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>拱桥最高点：mg - N = mv²/R，N ＜ mg，失重</div>
+                <div>凹形路面最低点：N - mg = mv²/R，N ＞ mg，超重</div>
+                <div>v = √(gR) 时拱桥最高点 N = 0，汽车将离开桥面</div>
+                <div>N - mg 沿路面法线方向，提供向心力</div>
+              </div>
+            ) : isOrbit ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>万有引力提供向心力：GMm/r² = mv²/r，圆轨道速度 v₁ = √(GM/r)</div>
+                <div>周期 T = 2π√(r³/GM)，与卫星质量无关</div>
+                <div>v₁ ＜ v ＜ √2·v₁ 时轨道为椭圆，v ＜ v₁ 时发射点为远地点</div>
+                <div>v ≥ √2·v₁（逃逸速度）时轨道不再闭合</div>
+              </div>
+            ) : isTurntable ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>随盘转动时静摩擦力提供向心力：f = mω²r</div>
+                <div>f 达到最大静摩擦力 μmg 时开始滑动，临界角速度 ω = √(μg/r)</div>
+                <div>临界角速度与质量无关：r 越大、μ 越小的物体越先滑动</div>
+                <div>滑动后物体沿切线方向离开（忽略滑动摩擦）</div>
+              </div>
+            ) : isConical ? (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>锥角：cosθ = g / (ω²L)，轨道半径 r = L·sinθ</div>
+                <div>拉力 T = mω²L，竖直分量 Tcosθ = mg，水平分量 Tsinθ 提供向心力</div>
+                <div>ω ≤ √(g/L) 时摆球竖直下垂，T = mg</div>
+                <div>当拉力 ＞ 最大拉力时，绳子断裂，物体做平抛运动</div>
+              </div>
+            ) : (
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <div>向心力 = m × ω² × r</div>
+                <div>当向心力 ＞ 最大拉力时，绳子断裂</div>
+                <div>断裂后物体沿切线方向匀速运动</div>
+                <div>变速时 ω = ω₀ + αt，切向加速度 aₜ = αr，合加速度 a = √(aₙ² + aₜ²)</div>
+                {isRotatingView && (
+                  <div>旋转参考系中需引入惯性力：离心力 mω²r 背离转轴，运动物体还受科里奥利力 2mωv'</div>
+                )}
+                {isElastic && (
+                  <div>弹性绳：k(r - L₀) = mω²r，平衡半径 r = kL₀ / (k - mω²)；ω² ≥ k/m 时绳子无限伸长</div>
+                )}
+                {tableEnabled && (
+                  <div>离开桌边后做平抛运动：t = √(2h/g)，水平位移 x = vt</div>
+                )}
+                {hasDrag && (
+                  <div>空气阻力做负功：电机关闭时 ω 逐渐减小，拉力 mω²r 随之减小；电机开启时 P电机 = fv + maₜv，Eₖ = Eₖ₀ + W电机 - Q阻力</div>
+                )}
+              </div>
+            )}
           </div>
           
+          {isOrbit && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-2">开普勒第三定律</h3>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                改变发射距离或速度后记录数据，比较各轨道的 T²/a³（a 为半长轴）
+              </div>
+              {keplerRecords.length > 0 && (
+                <table className="w-full text-sm text-gray-700 dark:text-gray-200 mb-2">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th>a ({ORBIT_CENTRAL_BODIES[orbitCentralBody].distanceUnit.label})</th>
+                      <th>T ({ORBIT_CENTRAL_BODIES[orbitCentralBody].timeUnit.label})</th>
+                      <th>实测 T</th>
+                      <th>T²/a³</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {keplerRecords.map((record, index) => (
+                      <tr key={index}>
+                        <td>{record.semiMajorAxis.toPrecision(4)}</td>
+                        <td>{record.period.toPrecision(4)}</td>
+                        <td>{record.measuredPeriod !== null ? record.measuredPeriod.toPrecision(4) : '—'}</td>
+                        <td>{(record.period * record.period / Math.pow(record.semiMajorAxis, 3)).toPrecision(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <div className="flex space-x-2">
+                <button
+                  onClick={recordKeplerData}
+                  className="flex-1 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-sm"
+                >
+                  记录当前轨道
+                </button>
+                <button
+                  onClick={() => setKeplerRecords([])}
+                  className="flex-1 px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
+                >
+                  清空表格
+                </button>
+              </div>
+            </div>
+          )}
+          
+          {isHorizontal && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-2">断裂实验</h3>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                所选物理量从起始值匀速增大，自动记录绳子断裂时的临界值；换用不同质量重复实验，找出临界角速度与 m、r 的关系
+              </div>
+              <div className="flex space-x-4 mb-2">
+                {Object.values(ExperimentVariable).map((value) => (
+                  <label key={value} className="flex items-center cursor-pointer">
+                    <input
+                      type="radio"
+                      name="experimentVariable"
+                      value={value}
+                      checked={experimentVariable === value}
+                      disabled={isElastic && value === ExperimentVariable.RADIUS}
+                      onChange={(e) => handleExperimentVariableChange(e.target.value as ExperimentVariable)}
+                      className="mr-2 text-blue-600"
+                    />
+                    <span className="text-gray-700 dark:text-gray-200">
+                      {EXPERIMENT_VARIABLES[value].label} {EXPERIMENT_VARIABLES[value].symbol}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2 mb-2">
+                <ParameterControl
+                  label={`起始值 (${EXPERIMENT_VARIABLES[experimentVariable].symbol}₀)`}
+                  value={experimentStartValue}
+                  min={EXPERIMENT_VARIABLES[experimentVariable].minStart}
+                  max={EXPERIMENT_VARIABLES[experimentVariable].maxStart}
+                  step={0.01}
+                  unit={EXPERIMENT_VARIABLES[experimentVariable].unit}
+                  onChange={setExperimentStartValue}
+                />
+                <ParameterControl
+                  label="增大速率"
+                  value={experimentRate}
+                  min={0.01}
+                  max={EXPERIMENT_VARIABLES[experimentVariable].maxRate}
+                  step={0.01}
+                  unit={EXPERIMENT_VARIABLES[experimentVariable].rateUnit}
+                  onChange={setExperimentRate}
+                />
+              </div>
+              {experimentRuns.length > 0 && (
+                <table className="w-full text-sm text-gray-700 dark:text-gray-200 mb-2">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th>m (kg)</th>
+                      <th>r (m)</th>
+                      <th>T_max (N)</th>
+                      <th>ω_c (rad/s)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {experimentRuns.map((run, index) => (
+                      <tr key={index}>
+                        <td className={run.variable === ExperimentVariable.MASS ? 'font-semibold text-pink-600 dark:text-pink-400' : ''}>
+                          {run.mass.toFixed(3)}
+                        </td>
+                        <td className={run.variable === ExperimentVariable.RADIUS ? 'font-semibold text-pink-600 dark:text-pink-400' : ''}>
+                          {run.radius.toFixed(3)}
+                        </td>
+                        <td>{run.maxTension.toFixed(1)}</td>
+                        <td className={run.variable === ExperimentVariable.ANGULAR_VELOCITY ? 'font-semibold text-pink-600 dark:text-pink-400' : ''}>
+                          {run.criticalAngularSpeed.toFixed(3)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {breakingFit && latestRun && (
+                <div className="text-sm text-gray-700 dark:text-gray-200 mb-2 space-y-1">
+                  <div>
+                    拟合：ω_c = {breakingFit.coefficient.toFixed(3)} × (mr)^{breakingFit.exponent.toFixed(3)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    与 ω_c = √(T_max/(mr)) 比较：√T_max = {Math.sqrt(latestRun.maxTension).toFixed(3)}，指数 -0.5
+                  </div>
+                </div>
+              )}
+              <div className="flex space-x-2">
+                <button
+                  onClick={startExperiment}
+                  disabled={!canStartExperiment}
+                  className="flex-1 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+                >
+                  开始实验
+                </button>
+                <button
+                  onClick={() => setExperimentRuns([])}
+                  className="flex-1 px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
+                >
+                  清空表格
+                </button>
+              </div>
+            </div>
+          )}
+          
+          {/* 轨迹着色与频闪照片 */}
+          {usesBlockNodes && (
+            <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+              <h3 className="font-medium text-gray-800 dark:text-gray-100 mb-1">轨迹与频闪照片</h3>
+              {availableTrailColorings.map(coloring => (
+                <label key={coloring} className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="trailColoring"
+                    value={coloring}
+                    checked={visibleTrailColoring === coloring}
+                    onChange={(e) => setTrailColoring(e.target.value as TrailColoring)}
+                    className="mr-2 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">{TRAIL_COLORING_LABELS[coloring]}</span>
+                </label>
+              ))}
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={fadeTrail}
+                  onChange={(e) => setFadeTrail(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700 dark:text-gray-200">较早的轨迹逐渐变淡</span>
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showStrobe}
+                  onChange={(e) => setShowStrobe(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-gray-700 dark:text-gray-200">频闪照片（按固定时间间隔留下物体的影像）</span>
+              </label>
+              {showStrobe && (
+                <>
+                  <label className="flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showStrobeVelocity}
+                      onChange={(e) => setShowStrobeVelocity(e.target.checked)}
+                      className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <span className="text-gray-700 dark:text-gray-200">画出各影像的速度矢量</span>
+                  </label>
+                  <ParameterControl
+                    label="频闪间隔"
+                    value={strobeInterval}
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    unit="s"
+                    onChange={setStrobeInterval}
+                  />
+                </>
+              )}
+            </div>
+          )}
+          
           <button
             onClick={() => modelRef.current.clearTrajectory()}
             className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
@@ -779,28 +1985,312 @@ const SimulationPage: React.FC = () => {
       
       {/* 右侧动画区域 */}
       <div className="flex-1 flex flex-col items-center justify-center p-6">
-        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4 text-center">交互式仿真</h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-4 text-center">交互式仿真</h2>
           
           <div className="flex justify-center mb-4">
             <canvas 
               ref={canvasRef}
-              className="border border-gray-300 rounded"
-              style={{ backgroundColor: '#ffffff' }}
+              role="img"
+              aria-label="圆周运动仿真画面"
+              aria-describedby={descriptionId}
+              className={`border border-gray-300 dark:border-gray-600 rounded touch-none ${canvasCursor}`}
+              style={{ backgroundColor: palette.background }}
+              onPointerDown={handleCanvasPointerDown}
+              onPointerMove={handleCanvasPointerMove}
+              onPointerUp={handleCanvasPointerUp}
+              onPointerCancel={handleCanvasPointerUp}
+              onPointerLeave={handleCanvasPointerLeave}
             />
           </div>
           
-          <div className="text-center space-y-1 text-sm text-gray-600">
-            <div>黑色方块：运动物体</div>
-            <div>灰色钉子：圆心</div>
-            <div>灰色绳子：提供向心力</div>
-            <div>黑色虚线：运动轨迹</div>
-            <div className="flex justify-center space-x-6 mt-2">
-              <span className="text-green-600">绿色箭头：角速度 ω</span>
-              <span className="text-yellow-600">黄色箭头：线速度 v</span>
-              <span className="text-red-600">红色箭头：向心加速度 a</span>
+          {/* 屏幕阅读器：画面的文字描述、事件提示，以及可用 Tab 键选中、方向键移动的画布对象 */}
+          <div id={descriptionId} className="sr-only">{stateDescription}</div>
+          <div className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</div>
+          <div className="sr-only">
+            {focusableObjects.map(object => (
+              <button
+                key={object}
+                type="button"
+                aria-roledescription="可拖动对象"
+                aria-label={`${CANVAS_OBJECTS[object].label}：${CANVAS_OBJECTS[object].keyHint}`}
+                onFocus={() => setFocusedObject(object)}
+                onBlur={() => setFocusedObject(null)}
+                onKeyDown={(e) => handleCanvasObjectKeyDown(object, e)}
+              >
+                {CANVAS_OBJECTS[object].label}
+              </button>
+            ))}
+          </div>
+          
+          <div className="text-center space-y-1 text-sm text-gray-600 dark:text-gray-300">
+            {isBridge ? (
+              <>
+                <div><LegendItem color={palette.vehicle} symbol="■">汽车：在竖直平面内的弯曲路面上匀速率行驶</LegendItem></div>
+                <div className="flex justify-center space-x-6">
+                  <LegendItem color={quantityColors.gravity} symbol="→">重力 mg</LegendItem>
+                  <LegendItem color={quantityColors.normal} symbol="→">支持力 N</LegendItem>
+                  <LegendItem color={quantityColors.resultant} symbol="⇢">N - mg</LegendItem>
+                </div>
+              </>
+            ) : isOrbit ? (
+              <>
+                <div><LegendItem color={palette.block} symbol="●">卫星（行星）</LegendItem></div>
+                <div className="flex justify-center space-x-6">
+                  <LegendItem color={palette.guide} symbol="┄">由当前速度决定的轨道</LegendItem>
+                  <LegendItem color={palette.trajectory} symbol="—">运动轨迹</LegendItem>
+                </div>
+                <div><LegendItem color={quantityColors.gravity} symbol="→">万有引力 F（提供向心力）</LegendItem></div>
+              </>
+            ) : isTurntable ? (
+              <>
+                <div className="flex justify-center space-x-1">
+                  {turntableBodies.map((_, index) => (
+                    <span key={index} style={{ color: palette.turntableBodies[index % palette.turntableBodies.length] }}>■</span>
+                  ))}
+                  <span>转盘上的物体，编号与左侧参数对应</span>
+                </div>
+                <div><LegendItem color={palette.guide} symbol="●">绕竖直轴转动的转盘</LegendItem></div>
+                <div><LegendItem color={quantityColors.friction} symbol="→">静摩擦力 f（指向转轴）</LegendItem></div>
+              </>
+            ) : isRoadCurve ? (
+              <>
+                <div><LegendItem color={palette.vehicle} symbol="■">汽车：运动物体</LegendItem></div>
+                <div><LegendItem color={palette.road} symbol="○">弯道路面，右下角为路面横截面</LegendItem></div>
+                <div><LegendItem color={palette.guide} symbol="┄">车道中心线</LegendItem></div>
+              </>
+            ) : (
+              <>
+                <div><LegendItem color={palette.block} symbol="■">运动物体</LegendItem></div>
+                <div><LegendItem color={palette.guide} symbol="●">钉子：圆心</LegendItem></div>
+                <div>
+                  <LegendItem color={palette.guide} symbol="—">
+                    {isElastic ? '弹性绳（弹簧）：弹力提供向心力' : '绳子：提供向心力'}
+                  </LegendItem>
+                </div>
+                <div><LegendItem color={palette.trajectory} symbol="—">运动轨迹</LegendItem></div>
+              </>
+            )}
+            {!isBridge && (
+              <div className="flex justify-center space-x-6 mt-2">
+                {!isTurntable && !isOrbit && !isRotatingView && (
+                  <LegendItem color={quantityColors.angularVelocity} symbol="→">角速度 ω</LegendItem>
+                )}
+                <LegendItem color={quantityColors.velocity} symbol="→">
+                  {isRotatingView ? "相对旋转参考系的速度 v'" : '线速度 v'}
+                </LegendItem>
+                {!isTurntable && !isOrbit && !isRotatingView && (
+                  <LegendItem color={quantityColors.centripetal} symbol="→">向心加速度 a</LegendItem>
+                )}
+              </div>
+            )}
+            {isHorizontal && !isRotatingView && angularAcceleration !== 0 && (
+              <div className="flex justify-center space-x-6">
+                <LegendItem color={quantityColors.tangential} symbol="→">切向加速度 aₜ</LegendItem>
+                <LegendItem color={quantityColors.resultant} symbol="→">合加速度 a</LegendItem>
+              </div>
+            )}
+            {isRotatingView && (
+              <div className="flex justify-center space-x-6">
+                <LegendItem color={quantityColors.tension} symbol="→">拉力 T</LegendItem>
+                <LegendItem color={quantityColors.centripetal} symbol="⇢">离心力 F离</LegendItem>
+                <LegendItem color={quantityColors.coriolis} symbol="⇢">科里奥利力 F科</LegendItem>
+              </div>
+            )}
+            {isHorizontal && tableEnabled && (
+              <div><LegendItem color={palette.prediction} symbol="┄">离开桌边后的平抛轨迹，× 为预测落点</LegendItem></div>
+            )}
+            {isRoadCurve && (
+              <div className="flex justify-center space-x-6">
+                <LegendItem color={quantityColors.gravity} symbol="→">重力 mg</LegendItem>
+                <LegendItem color={quantityColors.normal} symbol="→">支持力 N</LegendItem>
+                <LegendItem color={quantityColors.friction} symbol="→">静摩擦力 f</LegendItem>
+              </div>
+            )}
+            {(isVertical || isConical) && (
+              <div className="flex justify-center space-x-6">
+                <LegendItem color={quantityColors.gravity} symbol="→">重力 mg</LegendItem>
+                <LegendItem color={quantityColors.tension} symbol="→">
+                  拉力 T{isConical && '（⇢ 为分量）'}
+                </LegendItem>
+              </div>
+            )}
+            <div className="text-red-600 dark:text-red-400 mt-2">
+              {FAILURE_HINTS[mode]}
+            </div>
+          </div>
+        </div>
+        
+        {/* 运动图像 */}
+        {hasMotionGraph && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-3 text-center">运动图像</h2>
+            <div className="flex flex-wrap justify-center gap-x-4 gap-y-2 mb-2">
+              {availableGraphSeries.map(series => (
+                <label key={series} className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={graphSeries.includes(series)}
+                    onChange={(e) => toggleGraphSeries(series, e.target.checked)}
+                    className="mr-2 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <span style={{ color: palette.quantities[GRAPH_SERIES[series].quantity] }}>
+                    {GRAPH_SERIES[series].label} ({GRAPH_SERIES[series].unit})
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-center space-x-4 mb-3 text-sm">
+              <span className="text-gray-700 dark:text-gray-200">时间范围：</span>
+              {GRAPH_TIME_WINDOWS.map(timeWindow => (
+                <label key={timeWindow} className="flex items-center cursor-pointer">
+                  <input
+                    type="radio"
+                    name="graphTimeWindow"
+                    value={timeWindow}
+                    checked={graphTimeWindow === timeWindow}
+                    onChange={() => setGraphTimeWindow(timeWindow)}
+                    className="mr-1 text-blue-600"
+                  />
+                  <span className="text-gray-700 dark:text-gray-200">{timeWindow} s</span>
+                </label>
+              ))}
+            </div>
+            {visibleGraphSeries.length > 0 && (
+              <div className="flex justify-center">
+                <canvas
+                  ref={graphCanvasRef}
+                  width={GRAPH_WIDTH}
+                  height={visibleGraphSeries.length * GRAPH_STRIP_HEIGHT + GRAPH_AXIS_HEIGHT}
+                  className={`border border-gray-300 dark:border-gray-600 rounded touch-none ${isPaused ? 'cursor-crosshair' : ''}`}
+                  style={{ backgroundColor: palette.background }}
+                  onPointerDown={handleGraphPointer}
+                  onPointerMove={handleGraphPointer}
+                />
+              </div>
+            )}
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
+              暂停后在图像上移动光标，可读取同一时刻的各个数值
+            </div>
+          </div>
+        )}
+        
+        {/* 时间控制：播放速度、逐帧播放和回放 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-3 text-center">时间控制</h2>
+          <div className="flex flex-wrap justify-center gap-x-4 gap-y-2 mb-3 text-sm">
+            <span className="text-gray-700 dark:text-gray-200">播放速度：</span>
+            {PLAYBACK_RATES.map(rate => (
+              <label key={rate} className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="playbackRate"
+                  value={rate}
+                  checked={playbackRate === rate}
+                  onChange={() => setPlaybackRate(rate)}
+                  className="mr-1 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">{rate}×</span>
+              </label>
+            ))}
+          </div>
+          {isPaused ? (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => handleRewind(historyIndex - 1)}
+                  disabled={historyIndex <= 0}
+                  className="px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm disabled:opacity-50"
+                >
+                  上一帧
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={Math.max(historyLength - 1, 0)}
+                  step={1}
+                  value={historyIndex}
+                  onChange={(e) => handleRewind(parseInt(e.target.value, 10))}
+                  aria-label="回放时刻"
+                  aria-valuetext={`t = ${(modelRef.current.history[historyIndex]?.elapsedTime ?? 0).toFixed(3)} s`}
+                  className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+                <button
+                  onClick={handleStepForward}
+                  className="px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm"
+                >
+                  下一帧
+                </button>
+              </div>
+              <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+                <span>t = {(modelRef.current.history[historyIndex]?.elapsedTime ?? 0).toFixed(3)} s</span>
+                {modelRef.current.breakHistoryIndex >= 0 && (
+                  <button
+                    onClick={() => handleRewind(modelRef.current.breakHistoryIndex)}
+                    className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm"
+                  >
+                    回到绳子断裂的时刻
+                  </button>
+                )}
+              </div>
             </div>
-            <div className="text-red-600 mt-2">当向心力超过最大拉力时，绳子断裂</div>
+          ) : (
+            <div className="text-xs text-gray-500 dark:text-gray-400 text-center">
+              暂停后可逐帧播放，或拖动滑块回到最近 10 s 内的任一时刻；从回退的时刻继续运行时，之后的记录被丢弃
+            </div>
+          )}
+        </div>
+        
+        {/* 录制与导出 */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100 mb-3 text-center">录制与导出</h2>
+          <div className="flex justify-center space-x-4 mb-3 text-sm">
+            {Object.values(ExportFormat).map(format => (
+              <label key={format} className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="exportFormat"
+                  value={format}
+                  checked={exportFormat === format}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="mr-1 text-blue-600"
+                />
+                <span className="text-gray-700 dark:text-gray-200">{EXPORT_FORMAT_LABELS[format]}</span>
+              </label>
+            ))}
+          </div>
+          <div className="mb-3">
+            <ParameterControl
+              label="录制时长"
+              value={recordingDuration}
+              min={1}
+              max={10}
+              step={1}
+              unit="s"
+              onChange={setRecordingDuration}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleRecord}
+              disabled={recordingProgress !== null}
+              className="flex-1 px-3 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+            >
+              {recordingProgress === null ? '开始录制' : `录制中 ${Math.round(recordingProgress * 100)}%`}
+            </button>
+            <button
+              onClick={handleSnapshot}
+              disabled={recordingProgress !== null}
+              className="flex-1 px-3 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors text-sm disabled:opacity-50"
+            >
+              保存高清截图（PNG）
+            </button>
+          </div>
+          {exportError && (
+            <div className="text-xs text-red-600 dark:text-red-400 mt-2 text-center">{exportError}</div>
+          )}
+          <div className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
+            从当前时刻起按仿真时间每 1/{RECORDING_FRAME_RATE} s 记录一帧，与屏幕刷新率无关；图片下方附当前的参数
           </div>
         </div>
         
@@ -808,7 +2298,8 @@ const SimulationPage: React.FC = () => {
         <div className="flex space-x-4 mb-4">
           <button 
             onClick={() => setIsPaused(!isPaused)}
-            className={`px-6 py-2 text-white rounded-lg font-medium transition-colors ${
+            disabled={recordingProgress !== null}
+            className={`px-6 py-2 text-white rounded-lg font-medium transition-colors disabled:opacity-50 ${
               isPaused 
                 ? 'bg-green-600 hover:bg-green-700' 
                 : 'bg-orange-600 hover:bg-orange-700'
@@ -824,6 +2315,22 @@ const SimulationPage: React.FC = () => {
           </button>
         </div>
         
+        {/* 键盘操作说明 */}
+        <details className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-4 text-sm text-gray-700 dark:text-gray-200">
+          <summary className="cursor-pointer font-medium text-gray-800 dark:text-gray-100">键盘操作</summary>
+          <ul className="mt-2 space-y-1">
+            <li><kbd className="font-mono">空格</kbd> 或 <kbd className="font-mono">K</kbd>：暂停 / 继续</li>
+            <li><kbd className="font-mono">Alt + Shift + R</kbd>：重置仿真</li>
+            <li>暂停时 <kbd className="font-mono">.</kbd> / <kbd className="font-mono">,</kbd>：前进 / 后退一帧</li>
+            <li><kbd className="font-mono">I</kbd>：朗读当前的运动状态</li>
+            <li>参数名旁的字母键：选中对应的滑块，再用方向键调节</li>
+            <li><kbd className="font-mono">Tab</kbd> 选中画布上的物体、圆心或测量工具（以虚线框标出）：</li>
+            {focusableObjects.map(object => (
+              <li key={object} className="pl-4">{CANVAS_OBJECTS[object].label}：{CANVAS_OBJECTS[object].keyHint}</li>
+            ))}
+          </ul>
+        </details>
+        
         {/* 导航按钮 */}
         <div className="flex space-x-4">
           <button 
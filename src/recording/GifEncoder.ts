@@ -0,0 +1,160 @@
+// 浏览器内的动画 GIF 编码器：全局 256 色调色板、逐帧 LZW 压缩、无限循环播放
+
+// 调色板由第一帧中最常见的颜色和 6×6×6 的均匀色立方组成：背景、文字等大面积的颜色保持准确，
+// 之后才出现的颜色（如渐变色轨迹）映射到色立方中最接近的颜色
+const POPULAR_COLOR_COUNT = 40;
+const CUBE_LEVELS = [0, 51, 102, 153, 204, 255];
+
+// 颜色量化到每通道 5 位后作为直方图和映射缓存的下标
+const colorBin = (r: number, g: number, b: number): number => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+export class GifEncoder {
+  private palette: number[][] = []; // [r, g, b]
+  private binToIndex: Int16Array = new Int16Array(1 << 15).fill(-1);
+  private chunks: Uint8Array[] = [];
+
+  // delay 为每帧的显示时间（1/100 s）
+  constructor(private width: number, private height: number, private delay: number) {}
+
+  public addFrame(frame: ImageData): void {
+    if (this.palette.length === 0) {
+      this.buildPalette(frame.data);
+      this.writeHeader();
+    }
+    this.writeFrame(this.mapToPalette(frame.data));
+  }
+
+  public finish(): Blob {
+    this.chunks.push(Uint8Array.of(0x3b)); // 文件结束
+    return new Blob(this.chunks, { type: 'image/gif' });
+  }
+
+  private buildPalette(data: Uint8ClampedArray): void {
+    // 每个颜色格统计像素数和颜色之和，取平均值作为该格的代表色
+    const counts = new Uint32Array(1 << 15);
+    const sums = new Float64Array(3 << 15);
+    for (let i = 0; i < data.length; i += 4) {
+      const bin = colorBin(data[i], data[i + 1], data[i + 2]);
+      counts[bin]++;
+      sums[3 * bin] += data[i];
+      sums[3 * bin + 1] += data[i + 1];
+      sums[3 * bin + 2] += data[i + 2];
+    }
+    const popularBins = Array.from(counts.keys())
+      .filter(bin => counts[bin] > 0)
+      .sort((a, b) => counts[b] - counts[a])
+      .slice(0, POPULAR_COLOR_COUNT);
+    this.palette = popularBins.map(bin => [0, 1, 2].map(channel => Math.round(sums[3 * bin + channel] / counts[bin])));
+    CUBE_LEVELS.forEach(r => CUBE_LEVELS.forEach(g => CUBE_LEVELS.forEach(b => this.palette.push([r, g, b]))));
+    while (this.palette.length < 256) this.palette.push([0, 0, 0]);
+  }
+
+  private nearestPaletteIndex(r: number, g: number, b: number): number {
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    this.palette.forEach(([pr, pg, pb], index) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+    return bestIndex;
+  }
+
+  private mapToPalette(data: Uint8ClampedArray): Uint8Array {
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0; i < indices.length; i++) {
+      const r = data[4 * i];
+      const g = data[4 * i + 1];
+      const b = data[4 * i + 2];
+      const bin = colorBin(r, g, b);
+      if (this.binToIndex[bin] < 0) {
+        this.binToIndex[bin] = this.nearestPaletteIndex(r, g, b);
+      }
+      indices[i] = this.binToIndex[bin];
+    }
+    return indices;
+  }
+
+  private writeHeader(): void {
+    const bytes: number[] = [...'GIF89a'].map(char => char.charCodeAt(0));
+    // 逻辑屏幕描述：全局调色板 256 色（0xf7），背景色 0，像素宽高比未指定
+    bytes.push(...this.uint16(this.width), ...this.uint16(this.height), 0xf7, 0, 0);
+    this.palette.forEach(color => bytes.push(...color));
+    // NETSCAPE2.0 扩展：循环次数 0 表示无限循环
+    bytes.push(0x21, 0xff, 0x0b, ...[...'NETSCAPE2.0'].map(char => char.charCodeAt(0)), 0x03, 0x01, 0, 0, 0);
+    this.chunks.push(Uint8Array.from(bytes));
+  }
+
+  private writeFrame(indices: Uint8Array): void {
+    const bytes: number[] = [
+      // 图形控制扩展：每帧的显示时间
+      0x21, 0xf9, 0x04, 0, ...this.uint16(this.delay), 0, 0,
+      // 图像描述：覆盖整个画面，使用全局调色板
+      0x2c, 0, 0, 0, 0, ...this.uint16(this.width), ...this.uint16(this.height), 0,
+      8 // LZW 最小码长
+    ];
+    const compressed = this.compress(indices);
+    for (let offset = 0; offset < compressed.length; offset += 255) {
+      const block = compressed.subarray(offset, offset + 255);
+      bytes.push(block.length);
+      for (let i = 0; i < block.length; i++) bytes.push(block[i]);
+    }
+    bytes.push(0); // 数据块结束
+    this.chunks.push(Uint8Array.from(bytes));
+  }
+
+  // GIF 的变长码 LZW：码表满 4096 项时输出清除码并重新开始，码字按低位在前写入字节流
+  private compress(indices: Uint8Array): Uint8Array {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+
+    const emit = (code: number) => {
+      bitBuffer |= code << bitCount;
+      bitCount += codeSize;
+      while (bitCount >= 8) {
+        output.push(bitBuffer & 0xff);
+        bitBuffer >>>= 8;
+        bitCount -= 8;
+      }
+    };
+
+    emit(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const key = (prefix << 8) | indices[i];
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      emit(prefix);
+      if (nextCode === 4096) {
+        emit(clearCode);
+        nextCode = endCode + 1;
+        codeSize = minCodeSize + 1;
+        table = new Map();
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        table.set(key, nextCode++);
+      }
+      prefix = indices[i];
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return Uint8Array.from(output);
+  }
+
+  private uint16(value: number): number[] {
+    return [value & 0xff, (value >> 8) & 0xff];
+  }
+}
@@ -0,0 +1,81 @@
+// 不压缩（存储方式）的 ZIP 打包：PNG 本身已经压缩，逐个文件写入本地文件头和数据，最后写中央目录
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number; // 本地文件头在文件中的位置
+}
+
+export class ZipArchive {
+  private chunks: Uint8Array[] = [];
+  private entries: ZipEntry[] = [];
+  private offset: number = 0;
+
+  public addFile(name: string, data: Uint8Array): void {
+    const entry: ZipEntry = {
+      name: new TextEncoder().encode(name),
+      crc: crc32(data),
+      size: data.length,
+      offset: this.offset
+    };
+    this.entries.push(entry);
+    this.append(this.header(0x04034b50, entry, false), entry.name, data);
+  }
+
+  public finish(): Blob {
+    const directoryOffset = this.offset;
+    this.entries.forEach(entry => this.append(this.header(0x02014b50, entry, true), entry.name));
+    const directorySize = this.offset - directoryOffset;
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+    this.append(new Uint8Array(end.buffer));
+    return new Blob(this.chunks, { type: 'application/zip' });
+  }
+
+  // 本地文件头（30 字节）和中央目录项（46 字节）的公共字段相同，中央目录项多出版本号和本地文件头的位置
+  private header(signature: number, entry: ZipEntry, isDirectory: boolean): Uint8Array {
+    const view = new DataView(new ArrayBuffer(isDirectory ? 46 : 30));
+    const fieldsStart = isDirectory ? 6 : 4; // 中央目录项在签名后多一个“创建版本”字段
+    view.setUint32(0, signature, true);
+    if (isDirectory) view.setUint16(4, 20, true);
+    view.setUint16(fieldsStart, 20, true); // 解压所需版本 2.0
+    view.setUint16(fieldsStart + 2, 0x0800, true); // 文件名为 UTF-8
+    view.setUint16(fieldsStart + 4, 0, true); // 不压缩
+    view.setUint16(fieldsStart + 8, 0x0021, true); // 修改日期 1980-01-01（DOS 格式的最早日期）
+    view.setUint32(fieldsStart + 10, entry.crc, true);
+    view.setUint32(fieldsStart + 14, entry.size, true);
+    view.setUint32(fieldsStart + 18, entry.size, true);
+    view.setUint16(fieldsStart + 22, entry.name.length, true);
+    if (isDirectory) view.setUint32(42, entry.offset, true);
+    return new Uint8Array(view.buffer);
+  }
+
+  private append(...parts: Uint8Array[]): void {
+    parts.forEach(part => {
+      this.chunks.push(part);
+      this.offset += part.length;
+    });
+  }
+}
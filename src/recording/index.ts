@@ -0,0 +1,2 @@
+export { GifEncoder } from './GifEncoder';
+export { ZipArchive } from './ZipArchive';
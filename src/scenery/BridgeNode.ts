@@ -0,0 +1,129 @@
+import { drawArrow } from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Vector2 } from './SceneryNode';
+import { SimulationMode, SimulationState } from './simulationTypes';
+
+// 拱桥与凹形路面的侧视图：路面、汽车，以及重力 mg、支持力 N 和两者的合力 N - mg（沿路面法线）
+export class BridgeNode extends SceneryNode {
+  private left: number = 30; // 路面起点的屏幕坐标
+  private baseline: number = 280; // 平直路面的屏幕高度
+  private sampleStep: number = 0.5; // 绘制路面的采样间隔（m）
+  private forcePixelsPerWeight: number = 50; // mg 对应的箭头长度（像素）
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  private toScreen(point: Vector2): Vector2 {
+    const scale = this.model.pixelsPerMeter;
+    return { x: this.left + point.x * scale, y: this.baseline - point.y * scale };
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.BRIDGE) return;
+
+    this.renderRoad(context);
+
+    const car = this.toScreen(this.model.bridgeCarPosition);
+    const heading = this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION
+      ? this.model.getRoadSlope(this.model.bridgeCarPosition.x)
+      : Math.atan2(this.model.bridgeCarVelocity.y, this.model.bridgeCarVelocity.x);
+
+    context.save();
+    context.translate(car.x, car.y);
+    context.rotate(-heading);
+    context.fillStyle = this.model.palette.vehicle;
+    context.fillRect(-14, -12, 28, 9);
+    context.fillStyle = this.model.palette.vehicleWindow;
+    context.fillRect(2, -10, 7, 5); // 前挡风玻璃
+    context.fillStyle = this.model.palette.wheel;
+    context.beginPath();
+    context.arc(-8, -3, 3, 0, 2 * Math.PI);
+    context.arc(8, -3, 3, 0, 2 * Math.PI);
+    context.fill();
+    context.restore();
+
+    this.renderForces(context, car, heading);
+  }
+
+  private renderRoad(context: CanvasRenderingContext2D): void {
+    const length = this.model.bridgeLength;
+    const points: Vector2[] = [];
+    for (let x = 0; x < length; x += this.sampleStep) {
+      points.push(this.toScreen({ x, y: this.model.getRoadHeight(x) }));
+    }
+    points.push(this.toScreen({ x: length, y: 0 }));
+
+    // 路面下方的地面
+    const groundBottom = this.baseline + 80;
+    context.fillStyle = this.model.palette.ground;
+    context.beginPath();
+    context.moveTo(points[0].x, groundBottom);
+    points.forEach(point => context.lineTo(point.x, point.y));
+    context.lineTo(points[points.length - 1].x, groundBottom);
+    context.closePath();
+    context.fill();
+
+    context.strokeStyle = this.model.palette.roadEdge;
+    context.lineWidth = 3;
+    context.beginPath();
+    points.forEach((point, index) => {
+      if (index === 0) {
+        context.moveTo(point.x, point.y);
+      } else {
+        context.lineTo(point.x, point.y);
+      }
+    });
+    context.stroke();
+
+    // 在圆弧段的最低点（最高点）下方标注名称和半径
+    context.fillStyle = this.model.palette.mutedText;
+    context.font = '12px Arial';
+    this.model.roadProfile
+      .filter(section => section.curvature !== 0)
+      .forEach(section => {
+        const label = this.toScreen({ x: section.centerX, y: this.model.getRoadHeight(section.centerX) });
+        context.fillText(
+          `${section.name} R = ${(1 / Math.abs(section.curvature)).toFixed(0)} m`,
+          label.x - 40,
+          label.y + 30
+        );
+      });
+  }
+
+  private renderForces(context: CanvasRenderingContext2D, carPosition: Vector2, heading: number): void {
+    const weight = this.model.mass * this.model.gravity;
+    if (weight === 0) return;
+    const scale = this.forcePixelsPerWeight / weight;
+    const car = { x: carPosition.x, y: carPosition.y - 8 };
+
+    drawArrow(context, car, { x: car.x, y: car.y + weight * scale }, this.model.palette.quantities.gravity, 'mg');
+
+    const normalForce = this.model.bridgeNormalForce;
+    if (this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+
+    // 路面法线方向（屏幕坐标，指向路面上方）
+    const normal = { x: -Math.sin(heading), y: -Math.cos(heading) };
+    if (normalForce > 0) {
+      drawArrow(
+        context,
+        car,
+        { x: car.x + normal.x * normalForce * scale, y: car.y + normal.y * normalForce * scale },
+        this.model.palette.quantities.normal,
+        'N'
+      );
+    }
+
+    // 沿法线方向的合力 N - mg·cosφ 提供向心力，在最低点和最高点即 N - mg
+    const netForce = normalForce - weight * Math.cos(heading);
+    if (Math.abs(netForce * scale) < 3) return;
+    drawArrow(
+      context,
+      car,
+      { x: car.x + normal.x * netForce * scale, y: car.y + normal.y * netForce * scale },
+      this.model.palette.quantities.resultant,
+      'N−mg',
+      true
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import type { Vector2, Vector3 } from './SceneryNode';
+
+// 相机视角预设
+export enum CameraView {
+  TOP = 'top',        // 俯视图
+  SIDE = 'side',      // 侧视图（正视图）
+  OBLIQUE = 'oblique' // 斜视图
+}
+
+export interface CameraOrientation {
+  label: string;
+  yaw: number;   // 绕竖直轴的转角（rad）
+  pitch: number; // 视线与水平面的夹角（rad），0 为侧视，π/2 为俯视
+}
+
+export const CAMERA_VIEWS: Record<CameraView, CameraOrientation> = {
+  [CameraView.TOP]: { label: '俯视图', yaw: 0, pitch: Math.PI / 2 },
+  [CameraView.SIDE]: { label: '侧视图', yaw: 0, pitch: 0 },
+  // 俯仰角约 17.5°，水平面的纵深压缩为 0.3
+  [CameraView.OBLIQUE]: { label: '斜视图', yaw: 0, pitch: Math.asin(0.3) }
+};
+
+// 世界坐标（m，x 向右、y 指向观察者、z 向上）到屏幕的正交投影相机：先绕竖直轴转过 yaw，再按俯仰角 pitch 倾斜
+export class Camera {
+  public yaw: number = CAMERA_VIEWS[CameraView.OBLIQUE].yaw;
+  public pitch: number = CAMERA_VIEWS[CameraView.OBLIQUE].pitch;
+  public zoom: number = 1;
+  private dragSensitivity: number = 0.01; // rad/像素
+  
+  // 世界坐标中的矢量在屏幕上的投影（不含比例尺），屏幕 y 轴向下
+  public projectVector(vector: Vector3): Vector2 {
+    const x = vector.x * Math.cos(this.yaw) - vector.y * Math.sin(this.yaw);
+    const y = vector.x * Math.sin(this.yaw) + vector.y * Math.cos(this.yaw);
+    return { x, y: y * Math.sin(this.pitch) - vector.z * Math.cos(this.pitch) };
+  }
+  
+  // 矢量沿视线指向观察者的分量
+  public depthOf(vector: Vector3): number {
+    const y = vector.x * Math.sin(this.yaw) + vector.y * Math.cos(this.yaw);
+    return y * Math.cos(this.pitch) + vector.z * Math.sin(this.pitch);
+  }
+  
+  // 屏幕上的投影（不含比例尺）反求所在平面 n·P = offset 上的世界坐标；视线与平面几乎平行时无法确定，返回 null
+  public unproject(screenPoint: Vector2, planeNormal: Vector3, planeOffset: number): Vector3 | null {
+    const sinYaw = Math.sin(this.yaw);
+    const cosYaw = Math.cos(this.yaw);
+    const sinPitch = Math.sin(this.pitch);
+    const cosPitch = Math.cos(this.pitch);
+    // 屏幕向右、屏幕向下和指向观察者的三个单位矢量（世界坐标），两两正交
+    const right: Vector3 = { x: cosYaw, y: -sinYaw, z: 0 };
+    const down: Vector3 = { x: sinYaw * sinPitch, y: cosYaw * sinPitch, z: -cosPitch };
+    const toward: Vector3 = { x: sinYaw * cosPitch, y: cosYaw * cosPitch, z: sinPitch };
+    const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+    
+    const normalDepth = dot(planeNormal, toward);
+    if (Math.abs(normalDepth) < 0.05) return null;
+    const depth = (planeOffset - screenPoint.x * dot(planeNormal, right) - screenPoint.y * dot(planeNormal, down)) / normalDepth;
+    return {
+      x: screenPoint.x * right.x + screenPoint.y * down.x + depth * toward.x,
+      y: screenPoint.x * right.y + screenPoint.y * down.y + depth * toward.y,
+      z: screenPoint.x * right.z + screenPoint.y * down.z + depth * toward.z
+    };
+  }
+  
+  public setView(view: CameraView): void {
+    this.yaw = CAMERA_VIEWS[view].yaw;
+    this.pitch = CAMERA_VIEWS[view].pitch;
+  }
+  
+  // 拖动画布绕场景旋转：水平拖动改变 yaw，竖直拖动改变 pitch（限制在侧视与俯视之间）
+  public orbit(deltaX: number, deltaY: number): void {
+    this.yaw = (this.yaw - deltaX * this.dragSensitivity) % (2 * Math.PI);
+    this.pitch = Math.min(Math.max(this.pitch + deltaY * this.dragSensitivity, 0), Math.PI / 2);
+  }
+}
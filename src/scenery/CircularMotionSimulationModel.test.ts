@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { ExperimentVariable, SimulationState, type ExperimentRun } from './simulationTypes';
+
+const stepUntilBroken = (model: CircularMotionSimulationModel): void => {
+  for (let i = 0; i < 600 && model.state !== SimulationState.ROPE_BROKEN; i++) {
+    model.stepFrame();
+  }
+};
+
+describe('断裂实验的回放', () => {
+  it.each([ExperimentVariable.RADIUS, ExperimentVariable.MASS])('回退到断裂之前再前进时 %s 从回退时刻的值继续增大，结果只记录一次', variable => {
+    const model = new CircularMotionSimulationModel();
+    const runs: ExperimentRun[] = [];
+    model.onExperimentFinished = run => runs.push(run);
+    model.angularVelocity = 3; // 向心力 9r 或 9m（N），从 0.2 增大到约 0.56 时超过最大拉力 5 N
+    model.startExperiment(variable, 0.2, 0.5);
+
+    stepUntilBroken(model);
+    expect(model.state).toBe(SimulationState.ROPE_BROKEN);
+    expect(runs).toHaveLength(1);
+    const breakTime = model.breakTime;
+    const breakIndex = model.breakHistoryIndex;
+
+    model.rewindTo(breakIndex - 10);
+    expect(model.state).toBe(SimulationState.NORMAL_CIRCULAR_MOTION);
+    expect(model.experimentVariable).toBe(variable);
+    const rampedValue = variable === ExperimentVariable.RADIUS ? model.radius : model.mass;
+    expect(rampedValue).toBeLessThan(runs[0].criticalValue);
+
+    model.stepFrame();
+    expect(model.state).toBe(SimulationState.NORMAL_CIRCULAR_MOTION);
+
+    stepUntilBroken(model);
+    expect(model.state).toBe(SimulationState.ROPE_BROKEN);
+    expect(model.breakTime).toBeCloseTo(breakTime, 9);
+    expect(model.lastExperimentRun.criticalValue).toBeCloseTo(runs[0].criticalValue, 9);
+    expect(runs).toHaveLength(1);
+  });
+});
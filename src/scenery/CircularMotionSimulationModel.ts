@@ -0,0 +1,2046 @@
+import { Camera } from './Camera';
+import type { CircularMotionView } from './circularMotionNodes';
+import { integrateStep, Integrator, type AccelerationFunction } from './integrators';
+import type { Vector2, Vector3 } from './SceneryNode';
+import {
+  addVectors,
+  ANGLE_SNAP,
+  CENTER_SNAP_PIXELS,
+  DEFAULT_CENTER_POSITION,
+  DragModel,
+  ExperimentVariable,
+  ForceKind,
+  GRAVITATIONAL_CONSTANT,
+  normalizeAngle,
+  ORBIT_CENTRAL_BODIES,
+  OrbitCentralBody,
+  RADIUS_RANGE,
+  ReferenceFrame,
+  ROAD_RADIUS_RANGE,
+  RotationDirection,
+  scaleVector,
+  SimulationMode,
+  SimulationState,
+  snapTo,
+  TABLE_RADIUS_RANGE,
+  TrailColoring,
+  type BlockForce,
+  type CentralBodyProperties,
+  type EnergySample,
+  type ExperimentRun,
+  type LandingPrediction,
+  type MotionSample,
+  type ParameterRange,
+  type RoadProfileSection,
+  type TrajectoryPoint,
+  type TurntableBody,
+  type TurntableBodyConfig
+} from './simulationTypes';
+import { LIGHT_PALETTE, type SceneryPalette } from './theme';
+
+// 带时间戳的采样（轨迹、频闪、运动图像、能量曲线、卫星轨迹），回放时按时间截断
+interface TimedSample {
+  time: number; // s，记录时的 elapsedTime
+}
+
+interface OrbitTrailPoint extends Vector2, TimedSample {}
+
+// 模型中按时间追加的采样缓冲：快照不复制这些数组，回放时按快照的时刻截断
+const TIMED_BUFFERS = ['energyHistory', 'motionHistory', 'trajectoryPoints', 'strobeImages', 'orbitTrail'] as const;
+
+type TimedBuffer = typeof TIMED_BUFFERS[number];
+
+const emptyTimedBuffers = (): Record<TimedBuffer, TimedSample[]> => ({
+  energyHistory: [],
+  motionHistory: [],
+  trajectoryPoints: [],
+  strobeImages: [],
+  orbitTrail: []
+});
+
+// 回放历史中一个时刻的动态状态；参数（滑块）和显示选项不随回放改变
+interface SimulationSnapshot {
+  state: SimulationState;
+  angle: number;
+  angularRate: number;
+  specificEnergy: number;
+  frameAngle: number;
+  brokenPosition: Vector2;
+  brokenVelocity: Vector2;
+  skidsInward: boolean;
+  brokenHeight: number;
+  brokenVerticalSpeed: number;
+  landingPrediction: LandingPrediction | null;
+  turntableBodies: TurntableBody[];
+  orbitPosition: Vector2;
+  orbitVelocity: Vector2;
+  orbitTime: number;
+  measuredOrbitPeriod: number | null;
+  orbitSweptAngle: number;
+  lastLapTime: number;
+  bridgeCarPosition: Vector2;
+  bridgeCarVelocity: Vector2;
+  numericPosition: Vector2;
+  numericVelocity: Vector2;
+  numericStateValid: boolean;
+  elapsedTime: number;
+  rampTime: number;
+  breakTime: number | null;
+  breakAngularVelocity: number;
+  experimentVariable: ExperimentVariable | null;
+  rampedValue: number | null; // 断裂实验中正在增大的半径或质量，增大角速度或不在实验中时为 null
+  lastExperimentRun: ExperimentRun | null;
+  motorWork: number;
+  dragHeat: number;
+  stopwatchTime: number;
+}
+
+// 复制快照中会被原地修改的矢量和数组
+const cloneSnapshot = (snapshot: SimulationSnapshot): SimulationSnapshot => ({
+  ...snapshot,
+  brokenPosition: { ...snapshot.brokenPosition },
+  brokenVelocity: { ...snapshot.brokenVelocity },
+  turntableBodies: snapshot.turntableBodies.map(body => ({
+    ...body,
+    position: { ...body.position },
+    velocity: { ...body.velocity }
+  })),
+  orbitPosition: { ...snapshot.orbitPosition },
+  orbitVelocity: { ...snapshot.orbitVelocity },
+  bridgeCarPosition: { ...snapshot.bridgeCarPosition },
+  bridgeCarVelocity: { ...snapshot.bridgeCarVelocity },
+  numericPosition: { ...snapshot.numericPosition },
+  numericVelocity: { ...snapshot.numericVelocity }
+});
+
+// PhET风格的物理模型
+export class CircularMotionSimulationModel implements CircularMotionView {
+  public angle: number = 0;
+  public mass: number = 1; // kg
+  public angularVelocity: number = 0.5; // rad/s (物理正确单位)
+  public angularAcceleration: number = 0; // rad/s²，水平面模式下 ω(t) = ω₀ + αt
+  public maxTension: number = 5; // N
+  public radius: number = 1.0; // m (转换为米)
+  public centerPosition: Vector2 = { ...DEFAULT_CENTER_POSITION }; // 世界坐标原点的屏幕坐标，单位：像素
+  public startAngle: number | null = null; // 在画布上拖动设定的起始角度（rad），null 时从各场景的默认位置出发
+  public camera: Camera = new Camera();
+  public rotationDirection: RotationDirection = RotationDirection.CLOCKWISE; // 运行方向
+  public mode: SimulationMode = SimulationMode.HORIZONTAL;
+  public gravity: number = 9.8; // m/s²
+  public palette: SceneryPalette = LIGHT_PALETTE; // 画布配色，随页面主题和色盲友好选项切换
+
+  // 竖直平面模式：带方向的瞬时角速度（rad/s，正值为屏幕上顺时针）和单位质量机械能（J/kg）
+  public angularRate: number = 0;
+  private specificEnergy: number = 0;
+
+  // 圆锥摆模式：绳长，以及断绳后物体离水平面的高度（m）和竖直下落速度（m/s）
+  public ropeLength: number = 1.0; // m
+  public brokenHeight: number = 0;
+  private brokenVerticalSpeed: number = 0;
+
+  // 水平面模式的桌面：开启后物体越过桌边做平抛运动，落到地面上（可反弹）
+  public tableEnabled: boolean = false;
+  public tableHeight: number = 0.8; // m
+  public restitution: number = 0; // 地面恢复系数，0 表示落地不反弹
+  public readonly tableHalfWidth: number = 2.0; // m
+  public readonly tableHalfDepth: number = 1.2; // m
+  public landingPrediction: LandingPrediction | null = null;
+  private minBounceSpeed: number = 0.1; // m/s，反弹速度小于此值时视为静止
+
+  // 水平面模式的弹性绳：劲度系数和原长，半径由 k(r - L₀) = mω²r 决定
+  public elasticRopeEnabled: boolean = false;
+  public springConstant: number = 20; // N/m
+  public naturalLength: number = 1.0; // m
+
+  // 转盘模式：盘上的物体随 ω(t) = ω₀ + αt 一起转动，盘的转角即 angle
+  public turntableBodies: TurntableBody[] = [];
+  public readonly turntableRadius: number = 2.5; // m
+
+  // 天体运动模式：中心天体、发射点到中心的距离（m）和发射速度与第一宇宙速度之比
+  public orbitCentralBody: OrbitCentralBody = OrbitCentralBody.EARTH;
+  public orbitRadius: number = 1.0e7; // m
+  public launchSpeedRatio: number = 1;
+  public orbitPosition: Vector2 = { x: 0, y: 0 }; // 相对中心天体的世界坐标（m），y 轴向下
+  public orbitVelocity: Vector2 = { x: 0, y: 0 }; // m/s
+  public orbitTime: number = 0; // 仿真时间（s），按 timeScale 加速
+  public orbitTrail: OrbitTrailPoint[] = [];
+  public measuredOrbitPeriod: number | null = null; // 实测转过一整圈的时间（s）
+  private orbitSweptAngle: number = 0;
+  private lastLapTime: number = 0;
+  private orbitSubsteps: number = 20;
+
+  // 拱桥模式：凹形路面与拱桥的半径，汽车以 carSpeed 匀速率行驶；位置为世界坐标（m，y 轴向上）
+  public archRadius: number = 50; // m
+  public dipRadius: number = 30; // m
+  public bridgeCarPosition: Vector2 = { x: 0, y: 0 };
+  public bridgeCarVelocity: Vector2 = { x: 0, y: 0 }; // 腾空时的速度（m/s）
+  private bridgeArcAngle: number = Math.PI / 6; // 每段圆弧两端相对最低点（最高点）的圆心角
+  private bridgeApproachLength: number = 10; // 两端平直路面的长度（m）
+
+  // 汽车转弯模式：车速、轮胎与路面的动摩擦因数（近似等于最大静摩擦因数）和路面倾角
+  public carSpeed: number = 15; // m/s
+  public frictionCoefficient: number = 0.6;
+  public bankAngle: number = 0; // rad
+
+  // 旋转参考系：绳子未断时随物体转动，断裂后保持断裂时的角速度继续转动
+  public referenceFrame: ReferenceFrame = ReferenceFrame.GROUND;
+  public frameAngle: number = 0;
+
+  // 空气阻力和电机：电机开启时提供维持 ω(t) = ω₀ + αt 所需的动力，关闭时物体只受阻力，ω 逐渐减小
+  public dragModel: DragModel = DragModel.NONE;
+  public dragCoefficient: number = 0.5; // 线性阻力 N·s/m，二次阻力 N·s²/m²
+  public motorEnabled: boolean = false;
+  public motorWork: number = 0; // 电机累计做功（J）
+  public dragHeat: number = 0;  // 阻力累计耗散的能量（J）
+  public energyHistory: EnergySample[] = [];
+  private maxEnergySamples: number = 600;
+
+  // 秒表：按仿真时间计时，暂停时随之停止，不受重置影响
+  public stopwatchRunning: boolean = false;
+  public stopwatchTime: number = 0; // s
+
+  // 运动图像：每个物理步长记录一次，最多保留 30 s
+  public motionHistory: MotionSample[] = [];
+  private maxMotionSamples: number = 1800;
+
+  // 断裂实验：所选物理量从起始值按 experimentRate（每秒的增量）增大，绳子断裂时记录临界值
+  public experimentVariable: ExperimentVariable | null = null;
+  public experimentRate: number = 0;
+  public lastExperimentRun: ExperimentRun | null = null;
+  private experimentLogged: boolean = false; // 本次实验的结果已通知界面，回放中再次断裂时不重复记录
+  public onExperimentFinished: ((run: ExperimentRun) => void) | null = null;
+
+  // 在画布上拖动物体改变半径后通知界面，使滑块与模型保持一致
+  public onRadiusDragged: ((radius: number) => void) | null = null;
+
+  // 声音反馈：物体每转过一整圈、绳子断裂时通知界面
+  public onRevolution: (() => void) | null = null;
+  public onRopeBroken: (() => void) | null = null;
+  private sweptAngle: number = 0; // 上一个整圈之后转过的角度（rad，带方向）
+
+  // 受力分析图的显示开关和是否画出径向、切向分量；开启真实比例后画布上的矢量箭头不再限制长度
+  public showFreeBodyDiagram: boolean = false;
+  public showForceComponents: boolean = false;
+  public realisticArrowScaling: boolean = false;
+
+  public state: SimulationState = SimulationState.NORMAL_CIRCULAR_MOTION;
+  public integrator: Integrator = Integrator.ANALYTIC;
+
+  // 水平面数值积分的状态：相对圆心的位置（m）和速度（m/s），不含透视压缩
+  private numericPosition: Vector2 = { x: 0, y: 0 };
+  private numericVelocity: Vector2 = { x: 0, y: 0 };
+  private numericStateValid: boolean = false;
+
+  public elapsedTime: number = 0; // 自重置以来的仿真时间（s）
+  private rampTime: number = 0; // 自角速度或角加速度最近一次调整以来的时间（s）
+  public breakTime: number | null = null; // 绳子断裂时刻（s）
+  public breakAngularVelocity: number = 0; // 绳子断裂时的角速度（rad/s）
+  public brokenPosition: Vector2 = { x: 0, y: 0 }; // 圆周平面内相对圆心的坐标（m）
+  public brokenVelocity: Vector2 = { x: 0, y: 0 }; // m/s
+  public skidsInward: boolean = false; // 汽车低于最小安全速度，沿倾斜路面向内侧下滑（而不是向外侧滑）
+  public readonly roadWidth: number = 8; // 弯道路面宽度（m），向内侧下滑的汽车停在路面内缘
+
+  // 轨迹相关：按仿真时间采样，绳子断裂前后连成一条轨迹
+  public trajectoryPoints: TrajectoryPoint[] = [];
+  public trailDuration: number = 10; // 轨迹保留的时长（s）
+  private maxOrbitTrailPoints: number = 600;
+  private trajectorySampleInterval: number = 0.05; // 轨迹采样间隔（s）
+  public trailColoring: TrailColoring = TrailColoring.SOLID;
+  public fadeTrail: boolean = false; // 较早的轨迹逐渐变淡
+
+  // 频闪照片：每隔 strobeInterval 留下一个物体的影像
+  public showStrobe: boolean = false;
+  public showStrobeVelocity: boolean = false;
+  public strobeInterval: number = 0.2; // s
+  public strobeImages: TrajectoryPoint[] = [];
+  private maxStrobeImages: number = 60;
+
+  // 时间和缩放因子
+  public readonly fixedTimeStep: number = 1 / 60; // 物理步长（s），与显示器刷新率无关
+  private maxFrameTime: number = 0.25; // 单帧最多推进的真实时间（s），避免切回标签页时一次追赶过多
+  private accumulator: number = 0;
+  public playbackRate: number = 1; // 播放倍率：每秒真实时间推进的仿真时间（s），小于 1 为慢放
+
+  // 回放历史：每个物理步长后记录一个快照，暂停时可回到其中任一时刻；从回退的时刻继续运行时丢弃其后的快照
+  public history: SimulationSnapshot[] = [];
+  public historyIndex: number = 0; // 当前状态对应的快照
+  private maxHistorySnapshots: number = 600; // 最近 10 s
+  private rewoundSamples: Record<TimedBuffer, TimedSample[]> = emptyTimedBuffers(); // 回退时截去的采样
+
+  // 1米 = 100像素；汽车转弯的半径为几十米，改用 1米 = 3像素
+  // 天体运动的尺度由中心天体决定
+  public get pixelsPerMeter(): number {
+    if (this.mode === SimulationMode.ORBIT) return this.centralBody.pixelsPerMeter;
+    if (this.mode === SimulationMode.BRIDGE) return this.bridgeViewWidth / this.bridgeLength;
+    return this.mode === SimulationMode.ROAD_CURVE ? 3 : 100;
+  }
+
+  private get directionMultiplier(): number {
+    return this.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
+  }
+
+  // 天体运动（俯视）和拱桥（侧视）为平面示意图，不使用三维相机
+  public get usesCamera(): boolean {
+    return this.mode !== SimulationMode.ORBIT && this.mode !== SimulationMode.BRIDGE;
+  }
+
+  // 圆锥摆的半顶角：cosθ = g/(ω²L)；ω ≤ √(g/L) 时摆球竖直下垂
+  public get coneAngle(): number {
+    const required = this.angularVelocity * this.angularVelocity * this.ropeLength;
+    if (required <= this.gravity) return 0;
+    return Math.acos(this.gravity / required);
+  }
+
+  // 圆周轨道半径（m）：圆锥摆由绳长和锥角决定，弹性绳由弹力与向心力的平衡决定
+  public get circleRadius(): number {
+    if (this.mode === SimulationMode.CONICAL) {
+      return this.ropeLength * Math.sin(this.coneAngle);
+    }
+    if (this.hasElasticRope) {
+      // 平衡半径超过断裂长度（含 ω² ≥ k/m 无平衡位置的情况）时，绳子被拉到断裂长度
+      return Math.min(this.equilibriumRadius, this.breakingRadius);
+    }
+    return this.radius;
+  }
+
+  public get hasElasticRope(): boolean {
+    return this.mode === SimulationMode.HORIZONTAL && this.elasticRopeEnabled;
+  }
+
+  // 弹性绳的平衡半径：r = kL₀ / (k - mω²)，ω² ≥ k/m 时没有平衡位置，绳子无限伸长
+  public get equilibriumRadius(): number {
+    const stiffnessMargin = this.springConstant - this.mass * this.currentAngularSpeed * this.currentAngularSpeed;
+    if (stiffnessMargin <= 0) return Infinity;
+    return this.springConstant * this.naturalLength / stiffnessMargin;
+  }
+
+  // 弹性绳失去平衡的临界角速度 √(k/m)
+  public get runawayAngularSpeed(): number {
+    return this.mass > 0 ? Math.sqrt(this.springConstant / this.mass) : Infinity;
+  }
+
+  // 弹性绳的伸长量（m）
+  public get ropeExtension(): number {
+    return this.hasElasticRope ? this.circleRadius - this.naturalLength : 0;
+  }
+
+  // 绳子断裂时的半径（m）：弹性绳在弹力 k(r - L₀) 达到最大拉力时断裂
+  private get breakingRadius(): number {
+    if (this.hasElasticRope) {
+      return this.springConstant > 0 ? this.naturalLength + this.maxTension / this.springConstant : Infinity;
+    }
+    return this.radius;
+  }
+
+  // 圆锥摆摆球离水平面（最低点所在平面）的高度（m）
+  public get bobHeight(): number {
+    if (this.mode !== SimulationMode.CONICAL) return 0;
+    return this.ropeLength * (1 - Math.cos(this.coneAngle));
+  }
+
+  // 世界坐标（相对圆心，单位：米，z 向上，桌面/水平面为 z = 0）经相机投影到屏幕坐标
+  public projectToScreen(point: Vector3): Vector2 {
+    const offset = this.projectDirection(point);
+    const scale = this.screenPixelsPerMeter;
+    return { x: this.centerPosition.x + offset.x * scale, y: this.centerPosition.y + offset.y * scale };
+  }
+
+  // 画面上的比例尺（像素/米），含相机缩放；沿视线的长度在投影中被压缩，不适用此比例
+  public get screenPixelsPerMeter(): number {
+    return this.usesCamera ? this.pixelsPerMeter * this.camera.zoom : this.pixelsPerMeter;
+  }
+
+  // 世界坐标中的方向在屏幕上的投影（不含比例尺），供长度以像素给定的矢量箭头使用
+  public projectDirection(direction: Vector3): Vector2 {
+    if (!this.usesCamera) return { x: direction.x, y: direction.y };
+    return this.camera.projectVector(direction);
+  }
+
+  // 圆周平面内的坐标（m，相对圆心）换成世界坐标：竖直平面内 y 轴向下，其余场景的圆周在高度为 height 的水平面内
+  public planeToWorld(point: Vector2, height: number = 0): Vector3 {
+    if (this.mode === SimulationMode.VERTICAL) {
+      return { x: point.x, y: 0, z: -point.y };
+    }
+    return { x: point.x, y: point.y, z: height };
+  }
+
+  private get hasTable(): boolean {
+    return this.mode === SimulationMode.HORIZONTAL && this.tableEnabled;
+  }
+
+  // 脱离圆周后做平抛的起始高度：圆锥摆相对水平面，桌面模式相对地面
+  private get releaseHeight(): number {
+    if (this.mode === SimulationMode.CONICAL) return this.bobHeight;
+    if (this.hasTable) return this.tableHeight;
+    return 0;
+  }
+
+  public get isOnTable(): boolean {
+    if (!this.hasTable || this.brokenHeight < this.tableHeight) return false;
+    const position = this.brokenPosition;
+    return Math.abs(position.x) <= this.tableHalfWidth && Math.abs(position.y) <= this.tableHalfDepth;
+  }
+
+  public get hasLanded(): boolean {
+    return this.state !== SimulationState.NORMAL_CIRCULAR_MOTION && this.brokenHeight <= 0 && this.brokenVerticalSpeed === 0;
+  }
+
+  // 转盘、天体运动和拱桥由各自的节点绘制，不使用绳子、物块及其轨迹和矢量节点
+  public get usesBlockNodes(): boolean {
+    return this.mode !== SimulationMode.TURNTABLE
+      && this.mode !== SimulationMode.ORBIT
+      && this.mode !== SimulationMode.BRIDGE;
+  }
+
+  public get isRotatingView(): boolean {
+    return this.mode === SimulationMode.HORIZONTAL && this.referenceFrame === ReferenceFrame.ROTATING;
+  }
+
+  // 旋转参考系的角速度（rad/s，带方向，正值为屏幕上顺时针）
+  public get frameAngularVelocity(): number {
+    const angularSpeed = this.state === SimulationState.NORMAL_CIRCULAR_MOTION
+      ? this.currentAngularSpeed
+      : this.breakAngularVelocity;
+    return angularSpeed * this.directionMultiplier;
+  }
+
+  // 水平面上的世界坐标绕转轴转过 -φ，得到旋转参考系中的坐标（地面参考系下不变）
+  private rotateToView(point: Vector2, frameAngle: number): Vector2 {
+    if (!this.isRotatingView) return point;
+    const cos = Math.cos(frameAngle);
+    const sin = Math.sin(frameAngle);
+    return { x: point.x * cos + point.y * sin, y: -point.x * sin + point.y * cos };
+  }
+
+  // 世界坐标中的矢量在所选参考系下的屏幕投影（不含比例尺）
+  public projectViewDirection(direction: Vector3): Vector2 {
+    return this.projectDirection({ ...this.rotateToView(direction, this.frameAngle), z: direction.z });
+  }
+
+  // 世界坐标（地面参考系）在所选参考系下的屏幕投影，默认取当前时刻的参考系
+  public projectToView(point: Vector3, frameAngle: number = this.frameAngle): Vector2 {
+    return this.projectToScreen({ ...this.rotateToView(point, frameAngle), z: point.z });
+  }
+
+  // projectToView 的逆变换：屏幕上的点对应圆周平面内的坐标（m，相对圆心，地面参考系）；视线与圆周平面几乎平行时返回 null
+  public viewToPlane(point: Vector2): Vector2 | null {
+    const scale = this.screenPixelsPerMeter;
+    const offset = { x: (point.x - this.centerPosition.x) / scale, y: (point.y - this.centerPosition.y) / scale };
+    const isVertical = this.mode === SimulationMode.VERTICAL;
+    const world = isVertical
+      ? this.camera.unproject(offset, { x: 0, y: 1, z: 0 }, 0)
+      : this.camera.unproject(offset, { x: 0, y: 0, z: 1 }, this.bobHeight);
+    if (!world) return null;
+    const viewPosition = isVertical ? { x: world.x, y: -world.z } : { x: world.x, y: world.y };
+    if (!this.isRotatingView) return viewPosition;
+    // 旋转参考系中的坐标转回地面参考系
+    const cos = Math.cos(this.frameAngle);
+    const sin = Math.sin(this.frameAngle);
+    return { x: viewPosition.x * cos - viewPosition.y * sin, y: viewPosition.x * sin + viewPosition.y * cos };
+  }
+
+  // 物体在旋转参考系中的位置（m）和速度 v' = v - ω × r（m/s）
+  public get rotatingFramePosition(): Vector2 {
+    return this.rotateToView(this.planePosition, this.frameAngle);
+  }
+
+  public get relativeVelocity(): Vector2 {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) return { x: 0, y: 0 };
+    const { x, y } = this.planePosition;
+    const omega = this.frameAngularVelocity;
+    return this.rotateToView(
+      { x: this.brokenVelocity.x + omega * y, y: this.brokenVelocity.y - omega * x },
+      this.frameAngle
+    );
+  }
+
+  // 惯性离心力产生的加速度 ω²r'（m/s²），背离转轴
+  public get centrifugalAcceleration(): Vector2 {
+    const omegaSquared = this.frameAngularVelocity * this.frameAngularVelocity;
+    const position = this.rotatingFramePosition;
+    return { x: omegaSquared * position.x, y: omegaSquared * position.y };
+  }
+
+  // 科里奥利力产生的加速度 -2ω × v'（m/s²），只在物体相对旋转参考系运动时出现
+  public get coriolisAcceleration(): Vector2 {
+    const omega = this.frameAngularVelocity;
+    const velocity = this.relativeVelocity;
+    return { x: 2 * omega * velocity.y, y: -2 * omega * velocity.x };
+  }
+
+  // 竖直平面和圆锥摆中绳子拉力与重力共同提供向心力
+  public get isRopeInGravity(): boolean {
+    return this.mode === SimulationMode.VERTICAL || this.mode === SimulationMode.CONICAL;
+  }
+
+  // 圆周运动中指向圆心和沿速度方向的单位矢量（世界坐标）
+  public get radialDirection(): Vector3 {
+    return this.planeToWorld({ x: -Math.cos(this.angle), y: -Math.sin(this.angle) });
+  }
+
+  public get tangentialDirection(): Vector3 {
+    const sign = this.mode === SimulationMode.VERTICAL
+      ? (this.angularRate >= 0 ? 1 : -1)
+      : this.directionMultiplier;
+    return this.planeToWorld({ x: -Math.sin(this.angle) * sign, y: Math.cos(this.angle) * sign });
+  }
+
+  // 作用在物体上的所有力（世界坐标，N），供受力分析图使用
+  public get blockForces(): BlockForce[] {
+    if (!this.usesBlockNodes || this.mass === 0) return [];
+    const weight = this.mass * this.gravity;
+    const up: Vector3 = { x: 0, y: 0, z: 1 };
+    const forces: BlockForce[] = [{ kind: ForceKind.GRAVITY, force: scaleVector(up, -weight) }];
+
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const inward = this.radialDirection;
+      const forward = this.tangentialDirection;
+      if (this.mode === SimulationMode.HORIZONTAL) {
+        // 拉力的切向分量与阻力共同产生切向加速度：Tₜ - f阻 = maₜ
+        const drag = this.hasDrag ? this.dragForce(this.linearVelocity) : 0;
+        forces.push({ kind: ForceKind.NORMAL, force: scaleVector(up, weight) });
+        forces.push({
+          kind: ForceKind.TENSION,
+          force: addVectors(
+            scaleVector(inward, this.centripetalForce),
+            scaleVector(forward, this.mass * this.tangentialAcceleration + drag)
+          )
+        });
+        forces.push({ kind: ForceKind.DRAG, force: scaleVector(forward, -drag) });
+      } else if (this.mode === SimulationMode.VERTICAL) {
+        forces.push({ kind: ForceKind.TENSION, force: scaleVector(inward, this.tension) });
+      } else if (this.mode === SimulationMode.CONICAL) {
+        const anchor = this.ropeAnchorWorld;
+        const block = this.getBlockWorldPosition();
+        const rope = { x: anchor.x - block.x, y: anchor.y - block.y, z: anchor.z - block.z };
+        forces.push({ kind: ForceKind.TENSION, force: scaleVector(rope, this.tension / this.ropeLength) });
+      } else if (this.mode === SimulationMode.ROAD_CURVE) {
+        // 支持力垂直于倾斜路面，静摩擦力沿路面（正值指向内侧）
+        const cos = Math.cos(this.bankAngle);
+        const sin = Math.sin(this.bankAngle);
+        forces.push({
+          kind: ForceKind.NORMAL,
+          force: scaleVector(addVectors(scaleVector(up, cos), scaleVector(inward, sin)), this.normalForce)
+        });
+        forces.push({
+          kind: ForceKind.FRICTION,
+          force: scaleVector(addVectors(scaleVector(inward, cos), scaleVector(up, -sin)), this.frictionForce)
+        });
+      }
+    } else {
+      // 脱离圆周后：落在水平面、桌面或路面上时受支持力，汽车侧滑时受与速度反向的滑动摩擦力
+      const speed = Math.hypot(this.brokenVelocity.x, this.brokenVelocity.y);
+      const backward = speed > 0
+        ? this.planeToWorld({ x: -this.brokenVelocity.x / speed, y: -this.brokenVelocity.y / speed })
+        : { x: 0, y: 0, z: 0 };
+      if (this.mode !== SimulationMode.VERTICAL && (this.hasLanded || this.isOnTable)) {
+        forces.push({ kind: ForceKind.NORMAL, force: scaleVector(up, weight) });
+      }
+      if (this.mode === SimulationMode.ROAD_CURVE) {
+        forces.push({ kind: ForceKind.FRICTION, force: scaleVector(backward, this.roadFriction) });
+      }
+      if (speed > 0 && this.dragPower > 0) {
+        forces.push({ kind: ForceKind.DRAG, force: scaleVector(backward, this.dragForce(speed)) });
+      }
+    }
+    return forces.filter(({ force }) => Math.hypot(force.x, force.y, force.z) > 1e-9);
+  }
+
+  // 绳子固定端的世界坐标：圆锥摆的悬点在平面中心正上方一个绳长处
+  public get ropeAnchorWorld(): Vector3 {
+    return { x: 0, y: 0, z: this.mode === SimulationMode.CONICAL ? this.ropeLength : 0 };
+  }
+
+  public getRopeAnchor(): Vector2 {
+    return this.projectToScreen(this.ropeAnchorWorld);
+  }
+
+  // 圆周轨道上极角为 angle 的点（世界坐标）
+  public getCirclePoint(angle: number): Vector3 {
+    const radius = this.circleRadius;
+    return this.planeToWorld({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) }, this.bobHeight);
+  }
+
+  // 圆周轨道圆心的屏幕坐标
+  public getCircleCenter(): Vector2 {
+    return this.projectToScreen(this.planeToWorld({ x: 0, y: 0 }, this.bobHeight));
+  }
+
+  // 当前角速度大小（竖直平面内随高度变化，汽车转弯由车速和半径决定）
+  public get currentAngularSpeed(): number {
+    if (this.mode === SimulationMode.VERTICAL) return Math.abs(this.angularRate);
+    if (this.mode === SimulationMode.ROAD_CURVE) return this.radius > 0 ? this.carSpeed / this.radius : 0;
+    return this.angularSpeedAt(this.rampTime);
+  }
+
+  // 自 ω₀ 起经过 time 后的角速度：电机关闭时只受阻力，
+  // 线性阻力 dω/dt = -bω/m 得 ω = ω₀e^(-bt/m)，二次阻力 dω/dt = -crω²/m 得 ω = ω₀ / (1 + crω₀t/m)
+  private angularSpeedAt(time: number): number {
+    if (this.isCoasting) {
+      if (this.dragModel === DragModel.LINEAR) {
+        return this.angularVelocity * Math.exp(-this.dragCoefficient * time / this.mass);
+      }
+      return this.angularVelocity / (1 + this.dragCoefficient * this.circleRadius * this.angularVelocity * time / this.mass);
+    }
+    return Math.max(this.angularVelocity + this.angularAcceleration * time, 0);
+  }
+
+  // 角加速度大小（正值与转动方向同向），角速度减到零后不再变化
+  private angularAccelerationAt(time: number): number {
+    const omega = this.angularSpeedAt(time);
+    if (this.isCoasting) {
+      return this.dragModel === DragModel.LINEAR
+        ? -this.dragCoefficient * omega / this.mass
+        : -this.dragCoefficient * this.circleRadius * omega * omega / this.mass;
+    }
+    return omega > 0 || this.angularAcceleration > 0 ? this.angularAcceleration : 0;
+  }
+
+  // 切向加速度 a_t = αr（带方向：正值与速度同向）
+  public get tangentialAcceleration(): number {
+    if (this.mode !== SimulationMode.HORIZONTAL || this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    return this.angularAccelerationAt(this.rampTime) * this.circleRadius;
+  }
+
+  // 弹性绳的半径随 ω 变化，不与空气阻力同时使用
+  public get hasDrag(): boolean {
+    return this.mode === SimulationMode.HORIZONTAL && this.dragModel !== DragModel.NONE && !this.elasticRopeEnabled;
+  }
+
+  private get isCoasting(): boolean {
+    return this.hasDrag && !this.motorEnabled;
+  }
+
+  private dragForce(speed: number): number {
+    if (this.dragModel === DragModel.LINEAR) return this.dragCoefficient * speed;
+    if (this.dragModel === DragModel.QUADRATIC) return this.dragCoefficient * speed * speed;
+    return 0;
+  }
+
+  // 阻力的功率 P = fv；离开桌面后的平抛运动不计空气阻力
+  public get dragPower(): number {
+    if (!this.hasDrag || (this.hasTable && !this.isOnTable)) return 0;
+    const speed = this.linearVelocity;
+    return this.dragForce(speed) * speed;
+  }
+
+  // 电机的功率：维持 ω(t) 所需的切向力 f + maₜ 与速度之积，绳子断裂后电机不再对物体做功
+  public get motorPower(): number {
+    if (!this.hasDrag || !this.motorEnabled || this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    const speed = this.linearVelocity;
+    return (this.dragForce(speed) + this.mass * this.tangentialAcceleration) * speed;
+  }
+
+  public get kineticEnergy(): number {
+    return 0.5 * this.mass * this.linearVelocity * this.linearVelocity;
+  }
+
+  // 向心加速度 a_n = ω²r
+  public get centripetalAcceleration(): number {
+    return this.currentAngularSpeed * this.currentAngularSpeed * this.circleRadius;
+  }
+
+  public get centripetalForce(): number {
+    return this.mass * this.currentAngularSpeed * this.currentAngularSpeed * this.circleRadius;
+  }
+
+  // 绳子拉力：水平面内等于向心力；竖直平面内 T = mv²/r + mg·sinφ（φ 为屏幕坐标下的位置角，y轴向下）；
+  // 圆锥摆 T = mg/cosθ = mω²L，竖直下垂时 T = mg
+  public get tension(): number {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    if (this.mode === SimulationMode.VERTICAL) {
+      return this.centripetalForce + this.mass * this.gravity * Math.sin(this.angle);
+    }
+    if (this.mode === SimulationMode.CONICAL) {
+      return this.mass * this.gravity / Math.cos(this.coneAngle);
+    }
+    return this.centripetalForce;
+  }
+
+  // 拉力与最大拉力之比，用于声音反馈；没有绳子（汽车转弯、转盘、天体运动、拱桥）或绳子已不受力时为 null
+  public get tensionRatio(): number | null {
+    const hasRope = this.usesBlockNodes && this.mode !== SimulationMode.ROAD_CURVE;
+    if (!hasRope || this.state !== SimulationState.NORMAL_CIRCULAR_MOTION || this.maxTension <= 0) return null;
+    return this.tension / this.maxTension;
+  }
+
+  // 汽车转弯：路面支持力 N = m(g·cosβ + v²/r·sinβ)
+  public get normalForce(): number {
+    const centripetalAcceleration = this.carSpeed * this.carSpeed / this.radius;
+    return this.mass * (this.gravity * Math.cos(this.bankAngle) + centripetalAcceleration * Math.sin(this.bankAngle));
+  }
+
+  // 汽车转弯：所需静摩擦力 f = m(v²/r·cosβ - g·sinβ)，正值沿路面指向内侧，负值指向外侧
+  public get frictionForce(): number {
+    const centripetalAcceleration = this.carSpeed * this.carSpeed / this.radius;
+    return this.mass * (centripetalAcceleration * Math.cos(this.bankAngle) - this.gravity * Math.sin(this.bankAngle));
+  }
+
+  public get maxStaticFriction(): number {
+    return this.frictionCoefficient * this.normalForce;
+  }
+
+  // 最大安全速度：v² = gr(sinβ + μcosβ)/(cosβ - μsinβ)，分母不大于零时任意速度都不会外滑
+  public get maxSafeSpeed(): number {
+    const denominator = Math.cos(this.bankAngle) - this.frictionCoefficient * Math.sin(this.bankAngle);
+    if (denominator <= 0) return Infinity;
+    const numerator = Math.sin(this.bankAngle) + this.frictionCoefficient * Math.cos(this.bankAngle);
+    return Math.sqrt(this.gravity * this.radius * numerator / denominator);
+  }
+
+  // 最小安全速度：倾角较大时速度太小车辆会向内侧下滑
+  public get minSafeSpeed(): number {
+    const numerator = Math.sin(this.bankAngle) - this.frictionCoefficient * Math.cos(this.bankAngle);
+    if (numerator <= 0) return 0;
+    const denominator = Math.cos(this.bankAngle) + this.frictionCoefficient * Math.sin(this.bankAngle);
+    return Math.sqrt(this.gravity * this.radius * numerator / denominator);
+  }
+
+  // 不需要摩擦力时的设计速度：v² = gr·tanβ
+  public get idealBankSpeed(): number {
+    return Math.sqrt(this.gravity * this.radius * Math.tan(this.bankAngle));
+  }
+
+  public get linearVelocity(): number {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) {
+      return Math.hypot(this.brokenVelocity.x, this.brokenVelocity.y);
+    }
+    return this.currentAngularSpeed * this.circleRadius;
+  }
+
+  // 相对圆周最低点的高度（m），仅竖直平面模式有意义
+  public get heightAboveBottom(): number {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      return this.radius * (1 - Math.sin(this.angle));
+    }
+    return this.radius - this.brokenPosition.y;
+  }
+
+  // 物体位置相对最低点转过的角度 θ（rad），用于 T = mv²/r + mg·cosθ 的教学表述
+  public get angleFromBottom(): number {
+    return normalizeAngle(this.angle - Math.PI / 2);
+  }
+
+  // 按真实时间（s）推进：固定步长累加器保证不同刷新率下仿真速度一致、结果可复现
+  public step(deltaTime: number): void {
+    this.accumulator += Math.min(deltaTime, this.maxFrameTime) * this.playbackRate;
+    while (this.accumulator >= this.fixedTimeStep) {
+      this.stepFrame();
+      this.accumulator -= this.fixedTimeStep;
+    }
+  }
+
+  // 推进一个物理步长并记入回放历史，暂停时用于逐帧播放
+  public stepFrame(): void {
+    if (this.historyIndex < this.history.length - 1) {
+      this.rewoundSamples = emptyTimedBuffers(); // 从回退的时刻继续运行，之后的采样作废
+    }
+    const startAngle = this.revolutionAngle;
+    const wasCircling = this.state === SimulationState.NORMAL_CIRCULAR_MOTION;
+    this.stepFixed(this.fixedTimeStep);
+    if (wasCircling && this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      this.countRevolution(startAngle);
+    }
+    this.history.splice(this.historyIndex + 1);
+    this.history.push(this.captureSnapshot());
+    if (this.history.length > this.maxHistorySnapshots) {
+      this.history.shift();
+    }
+    this.historyIndex = this.history.length - 1;
+  }
+
+  // 回到历史中的某一时刻
+  public rewindTo(index: number): void {
+    const snapshot = this.history[index];
+    if (!snapshot) return;
+    const { rampedValue, ...state } = cloneSnapshot(snapshot);
+    Object.assign(this, state);
+    if (rampedValue !== null) {
+      this.rampedParameterValue = rampedValue;
+    }
+    this.historyIndex = index;
+    this.accumulator = 0;
+    this.sweptAngle = 0;
+    this.truncateTimedBuffers(snapshot.elapsedTime);
+  }
+
+  // 采样缓冲截断到 time：先放回之前回退时暂存的采样，再把晚于 time 的采样移入暂存，向后拖动滑块时可以取回；
+  // 回退前已从缓冲开头移除的旧采样不再恢复
+  private truncateTimedBuffers(time: number): void {
+    TIMED_BUFFERS.forEach(key => {
+      const buffer: TimedSample[] = this[key];
+      buffer.push(...this.rewoundSamples[key]);
+      const firstLater = buffer.findIndex(sample => sample.time > time);
+      this.rewoundSamples[key] = firstLater < 0 ? [] : buffer.splice(firstLater);
+    });
+  }
+
+  // 计算整圈数用的位置角：天体运动取卫星的方位角，其余场景取物体（或转盘）的角度
+  private get revolutionAngle(): number {
+    return this.mode === SimulationMode.ORBIT ? Math.atan2(this.orbitPosition.y, this.orbitPosition.x) : this.angle;
+  }
+
+  // 角度归一化后在 0 与 2π 处跳变，每步的增量取 (-π, π] 内的值再累加；摆动折返时正负抵消，不算整圈
+  private countRevolution(startAngle: number): void {
+    const delta = this.revolutionAngle - startAngle;
+    this.sweptAngle += Math.atan2(Math.sin(delta), Math.cos(delta));
+    if (Math.abs(this.sweptAngle) >= 2 * Math.PI) {
+      this.sweptAngle -= Math.sign(this.sweptAngle) * 2 * Math.PI;
+      this.onRevolution?.();
+    }
+  }
+
+  // 历史中绳子刚断裂的时刻，没有记录到断裂时为 -1
+  public get breakHistoryIndex(): number {
+    return this.history.findIndex(snapshot => snapshot.breakTime !== null);
+  }
+
+  private captureSnapshot(): SimulationSnapshot {
+    return cloneSnapshot({
+      state: this.state,
+      angle: this.angle,
+      angularRate: this.angularRate,
+      specificEnergy: this.specificEnergy,
+      frameAngle: this.frameAngle,
+      brokenPosition: this.brokenPosition,
+      brokenVelocity: this.brokenVelocity,
+      skidsInward: this.skidsInward,
+      brokenHeight: this.brokenHeight,
+      brokenVerticalSpeed: this.brokenVerticalSpeed,
+      landingPrediction: this.landingPrediction,
+      turntableBodies: this.turntableBodies,
+      orbitPosition: this.orbitPosition,
+      orbitVelocity: this.orbitVelocity,
+      orbitTime: this.orbitTime,
+      measuredOrbitPeriod: this.measuredOrbitPeriod,
+      orbitSweptAngle: this.orbitSweptAngle,
+      lastLapTime: this.lastLapTime,
+      bridgeCarPosition: this.bridgeCarPosition,
+      bridgeCarVelocity: this.bridgeCarVelocity,
+      numericPosition: this.numericPosition,
+      numericVelocity: this.numericVelocity,
+      numericStateValid: this.numericStateValid,
+      elapsedTime: this.elapsedTime,
+      rampTime: this.rampTime,
+      breakTime: this.breakTime,
+      breakAngularVelocity: this.breakAngularVelocity,
+      experimentVariable: this.experimentVariable,
+      rampedValue: this.isRampingParameter ? this.rampedParameterValue : null,
+      lastExperimentRun: this.lastExperimentRun,
+      motorWork: this.motorWork,
+      dragHeat: this.dragHeat,
+      stopwatchTime: this.stopwatchTime
+    });
+  }
+
+  // 以当前状态作为回放历史的起点
+  private resetHistory(): void {
+    this.history = [this.captureSnapshot()];
+    this.historyIndex = 0;
+    this.rewoundSamples = emptyTimedBuffers();
+  }
+
+  private stepFixed(dt: number): void {
+    this.elapsedTime += dt;
+    if (this.stopwatchRunning) this.stopwatchTime += dt;
+    const startMotorPower = this.motorPower;
+    const startDragPower = this.dragPower;
+
+    if (this.mode === SimulationMode.VERTICAL) {
+      this.stepVertical(dt);
+    } else if (this.mode === SimulationMode.CONICAL) {
+      this.stepConical(dt);
+    } else if (this.mode === SimulationMode.ROAD_CURVE) {
+      this.stepRoadCurve(dt);
+    } else if (this.mode === SimulationMode.TURNTABLE) {
+      this.stepTurntable(dt);
+      return;
+    } else if (this.mode === SimulationMode.ORBIT) {
+      this.stepOrbit(dt);
+      return;
+    } else if (this.mode === SimulationMode.BRIDGE) {
+      this.stepBridge(dt);
+      return;
+    } else if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      // 如果角速度为0且不再加速，小球停止运动
+      if (this.currentAngularSpeed === 0 && this.angularAcceleration <= 0) {
+        return; // 停止运动
+      }
+
+      this.stepHorizontal(dt);
+    } else if (this.hasTable && !this.isOnTable) {
+      // 越过桌边后做平抛运动
+      this.stepFreeFall(dt, this.restitution);
+    } else {
+      // 绳子断裂后的匀速直线运动（离开桌面前），有空气阻力时逐渐减速
+      this.applyDrag(dt);
+      this.brokenPosition.x += this.brokenVelocity.x * dt;
+      this.brokenPosition.y += this.brokenVelocity.y * dt;
+    }
+
+    if (this.mode === SimulationMode.HORIZONTAL) {
+      this.frameAngle = this.state === SimulationState.NORMAL_CIRCULAR_MOTION
+        ? this.angle
+        : normalizeAngle(this.frameAngle + this.frameAngularVelocity * dt);
+    }
+
+    // 收集轨迹点和频闪影像
+    this.collectTrajectoryPoint();
+    this.recordMotion();
+
+    if (this.hasDrag) {
+      this.recordEnergy(dt, startMotorPower, startDragPower);
+    }
+  }
+
+  // 直线运动中的空气阻力：按本步的精确解减小速率，方向不变
+  private applyDrag(dt: number): void {
+    if (!this.hasDrag) return;
+    const speed = Math.hypot(this.brokenVelocity.x, this.brokenVelocity.y);
+    if (speed === 0) return;
+    const newSpeed = this.dragModel === DragModel.LINEAR
+      ? speed * Math.exp(-this.dragCoefficient * dt / this.mass)
+      : speed / (1 + this.dragCoefficient * speed * dt / this.mass);
+    this.brokenVelocity.x *= newSpeed / speed;
+    this.brokenVelocity.y *= newSpeed / speed;
+  }
+
+  // 按梯形公式累计电机做功和阻力耗散，并记录能量曲线
+  private recordEnergy(dt: number, startMotorPower: number, startDragPower: number): void {
+    this.motorWork += (startMotorPower + this.motorPower) / 2 * dt;
+    this.dragHeat += (startDragPower + this.dragPower) / 2 * dt;
+    this.energyHistory.push({
+      time: this.elapsedTime,
+      kineticEnergy: this.kineticEnergy,
+      motorWork: this.motorWork,
+      dragHeat: this.dragHeat
+    });
+    if (this.energyHistory.length > this.maxEnergySamples) {
+      this.energyHistory.shift();
+    }
+  }
+
+  public toggleStopwatch(): void {
+    this.stopwatchRunning = !this.stopwatchRunning;
+  }
+
+  public resetStopwatch(): void {
+    this.stopwatchRunning = false;
+    this.stopwatchTime = 0;
+  }
+
+  // 汽车受到的摩擦力（N）：转弯时为所需的静摩擦力，侧滑时为滑动摩擦力 μmg，停下后为 0
+  private get roadFriction(): number {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) return this.frictionForce;
+    const isSliding = this.brokenVelocity.x !== 0 || this.brokenVelocity.y !== 0;
+    return isSliding ? this.frictionCoefficient * this.mass * this.gravity : 0;
+  }
+
+  // 记录运动图像的采样点：极角与上一采样点比较后连续累计，不在 ±π 处跳变
+  private recordMotion(): void {
+    const position = this.planePosition;
+    const isCircular = this.state === SimulationState.NORMAL_CIRCULAR_MOTION;
+    const previous = this.motionHistory[this.motionHistory.length - 1];
+    let angle = Math.atan2(position.y, position.x);
+    if (previous) {
+      const delta = normalizeAngle(angle - previous.angle);
+      angle = previous.angle + (delta > Math.PI ? delta - 2 * Math.PI : delta);
+    }
+    this.motionHistory.push({
+      time: this.elapsedTime,
+      angle,
+      x: position.x,
+      y: this.mode === SimulationMode.VERTICAL ? -position.y : position.y,
+      speed: this.linearVelocity,
+      centripetalAcceleration: isCircular ? this.centripetalAcceleration : 0,
+      tension: isCircular && this.mode !== SimulationMode.ROAD_CURVE ? this.tension : 0,
+      friction: this.mode === SimulationMode.ROAD_CURVE ? this.roadFriction : 0
+    });
+    if (this.motionHistory.length > this.maxMotionSamples) {
+      this.motionHistory.shift();
+    }
+  }
+
+  // 水平面内（变速）圆周运动：ω 在本步内线性变化，转过的角度为 ω₀Δt + ½αΔt²
+  private stepHorizontal(dt: number): void {
+    if (this.isRampingParameter) {
+      this.stepParameterRamp(dt);
+      return;
+    }
+
+    const startSpeed = this.currentAngularSpeed;
+
+    // 检查绳子是否会断裂（参数被调整后可能在本步开始时就已超限）
+    if (this.centripetalForce > this.maxTension) {
+      this.breakRope(this.elapsedTime - dt, startSpeed);
+      return;
+    }
+
+    if (this.integrator !== Integrator.ANALYTIC && !this.numericStateValid) this.resyncMotion();
+    const startRampTime = this.rampTime;
+    this.rampTime += dt;
+    const endSpeed = this.currentAngularSpeed;
+
+    // 本步内拉力越过最大值：求出越限的准确时刻，物体在该时刻的位置脱离圆周
+    let stepDuration = dt;
+    const breakingRadius = this.breakingRadius;
+    const criticalSpeed = breakingRadius > 0 && this.mass > 0 ? Math.sqrt(this.maxTension / (this.mass * breakingRadius)) : Infinity;
+    const crossesLimit = endSpeed > criticalSpeed && this.angularAcceleration > 0;
+    if (crossesLimit) {
+      stepDuration = (criticalSpeed - startSpeed) / this.angularAcceleration;
+      this.rampTime -= dt - stepDuration;
+    } else if (this.angularAcceleration < 0 && endSpeed === 0) {
+      // 减速至零后停止
+      stepDuration = startSpeed / -this.angularAcceleration;
+    }
+
+    if (this.integrator === Integrator.ANALYTIC || this.hasElasticRope) {
+      // 正常圆周运动 - 根据旋转方向更新角度
+      const deltaAngle = (startSpeed + (crossesLimit ? criticalSpeed : endSpeed)) / 2 * stepDuration;
+      this.angle = normalizeAngle(this.angle + deltaAngle * this.directionMultiplier);
+    } else {
+      this.integrateHorizontal(startRampTime, stepDuration);
+    }
+
+    if (crossesLimit) {
+      this.breakRope(this.elapsedTime - dt + stepDuration, criticalSpeed);
+    }
+  }
+
+  // 断裂实验中增大的是半径或质量（角速度的增大由角加速度实现）
+  public get isRampingParameter(): boolean {
+    return this.experimentVariable === ExperimentVariable.RADIUS || this.experimentVariable === ExperimentVariable.MASS;
+  }
+
+  private get rampedParameterValue(): number {
+    return this.experimentVariable === ExperimentVariable.RADIUS ? this.radius : this.mass;
+  }
+
+  private set rampedParameterValue(value: number) {
+    if (this.experimentVariable === ExperimentVariable.RADIUS) {
+      this.radius = value;
+    } else {
+      this.mass = value;
+    }
+  }
+
+  // 半径或质量匀速增大、角速度不变：向心力在本步内线性增大，由此求出越过最大拉力的准确时刻
+  private stepParameterRamp(dt: number): void {
+    const speed = this.currentAngularSpeed;
+    const startForce = this.centripetalForce;
+    if (startForce > this.maxTension) {
+      this.breakRope(this.elapsedTime - dt, speed);
+      return;
+    }
+
+    const startValue = this.rampedParameterValue;
+    this.rampedParameterValue = startValue + this.experimentRate * dt;
+    const endForce = this.centripetalForce;
+    const crossesLimit = endForce > this.maxTension;
+    let stepDuration = dt;
+    if (crossesLimit) {
+      stepDuration = dt * (this.maxTension - startForce) / (endForce - startForce);
+      this.rampedParameterValue = startValue + this.experimentRate * stepDuration;
+    }
+
+    this.angle = normalizeAngle(this.angle + speed * stepDuration * this.directionMultiplier);
+    this.numericStateValid = false;
+
+    if (crossesLimit) {
+      this.breakRope(this.elapsedTime - dt + stepDuration, speed);
+    }
+  }
+
+  // 从起始值开始断裂实验；增大角速度时用角加速度实现，增大半径或质量时角速度保持不变
+  // 有空气阻力时由电机维持转动
+  public startExperiment(variable: ExperimentVariable, startValue: number, rate: number): void {
+    this.motorEnabled = true;
+    if (variable === ExperimentVariable.ANGULAR_VELOCITY) {
+      this.angularVelocity = startValue;
+      this.angularAcceleration = rate;
+    } else {
+      this.angularAcceleration = 0;
+      if (variable === ExperimentVariable.RADIUS) {
+        this.radius = startValue;
+      } else {
+        this.mass = startValue;
+      }
+    }
+    this.reset();
+    this.experimentVariable = variable;
+    this.experimentRate = rate;
+    this.experimentLogged = false;
+    this.resetHistory();
+  }
+
+  private finishExperiment(): void {
+    if (this.experimentVariable === null) return;
+    const run: ExperimentRun = {
+      variable: this.experimentVariable,
+      criticalValue: this.experimentVariable === ExperimentVariable.ANGULAR_VELOCITY
+        ? this.breakAngularVelocity
+        : this.rampedParameterValue,
+      mass: this.mass,
+      radius: this.circleRadius,
+      criticalAngularSpeed: this.breakAngularVelocity,
+      maxTension: this.maxTension
+    };
+    this.experimentVariable = null;
+    this.lastExperimentRun = run;
+    if (!this.experimentLogged) {
+      this.experimentLogged = true;
+      this.onExperimentFinished?.(run);
+    }
+  }
+
+  // 数值积分：绳子提供向心加速度 -ω(t)²·r⃗，角加速度提供切向加速度 α·(ẑ × r⃗)
+  private integrateHorizontal(startRampTime: number, dt: number): void {
+    const acceleration: AccelerationFunction = ([x, y], _velocities, time) => {
+      const omega = this.angularSpeedAt(time);
+      const alpha = this.angularAccelerationAt(time) * this.directionMultiplier;
+      return [-omega * omega * x - alpha * y, -omega * omega * y + alpha * x];
+    };
+    const next = integrateStep(
+      this.integrator,
+      {
+        positions: [this.numericPosition.x, this.numericPosition.y],
+        velocities: [this.numericVelocity.x, this.numericVelocity.y]
+      },
+      acceleration,
+      startRampTime,
+      dt
+    );
+
+    this.numericPosition = { x: next.positions[0], y: next.positions[1] };
+    this.numericVelocity = { x: next.velocities[0], y: next.velocities[1] };
+    this.angle = normalizeAngle(Math.atan2(this.numericPosition.y, this.numericPosition.x));
+  }
+
+  // 数值积分时物体到圆心的实际距离（m），解析解时恒为绳长
+  public get actualRadius(): number {
+    if (this.usesNumericState) {
+      return Math.hypot(this.numericPosition.x, this.numericPosition.y);
+    }
+    return this.circleRadius;
+  }
+
+  // 弹性绳的半径随 ω 准静态变化，始终按平衡半径计算
+  private get usesNumericState(): boolean {
+    return this.mode === SimulationMode.HORIZONTAL
+      && !this.elasticRopeEnabled
+      && this.integrator !== Integrator.ANALYTIC
+      && this.numericStateValid;
+  }
+
+  // 半径相对绳长的偏差（比例），只有水平面数值积分会产生
+  public get radiusDrift(): number {
+    if (!this.usesNumericState || this.radius === 0) return 0;
+    return (this.actualRadius - this.radius) / this.radius;
+  }
+
+  // 动能（水平面）或机械能（竖直平面）相对理论值的偏差（比例）
+  public get energyDrift(): number {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    if (this.mode === SimulationMode.VERTICAL) {
+      if (this.specificEnergy === 0) return 0;
+      const energy = 0.5 * this.linearVelocity * this.linearVelocity + this.gravity * this.heightAboveBottom;
+      return (energy - this.specificEnergy) / this.specificEnergy;
+    }
+    if (!this.usesNumericState) return 0;
+    const expectedSpeed = this.currentAngularSpeed * this.radius;
+    if (expectedSpeed === 0) return 0;
+    const speedSquared = this.numericVelocity.x * this.numericVelocity.x + this.numericVelocity.y * this.numericVelocity.y;
+    return speedSquared / (expectedSpeed * expectedSpeed) - 1;
+  }
+
+  // 调整 ω₀ 或 α 后，从当前设定值重新开始计算 ω(t)
+  public restartRamp(): void {
+    this.rampTime = 0;
+    this.resyncMotion();
+  }
+
+  // 参数被调整后，数值积分的状态从当前角度处的解析解重新开始
+  public resyncMotion(): void {
+    const speed = this.currentAngularSpeed * this.radius * this.directionMultiplier;
+    this.numericPosition = { x: this.radius * Math.cos(this.angle), y: this.radius * Math.sin(this.angle) };
+    this.numericVelocity = { x: -speed * Math.sin(this.angle), y: speed * Math.cos(this.angle) };
+    this.numericStateValid = true;
+  }
+
+  // 半径由滑块直接给出的场景（圆锥摆和弹性绳的半径由受力决定）
+  public get hasDraggableRadius(): boolean {
+    return (this.mode === SimulationMode.HORIZONTAL && !this.elasticRopeEnabled)
+      || this.mode === SimulationMode.VERTICAL
+      || this.mode === SimulationMode.ROAD_CURVE;
+  }
+
+  public get radiusRange(): ParameterRange {
+    if (this.mode === SimulationMode.ROAD_CURVE) return ROAD_RADIUS_RANGE;
+    return this.hasTable ? TABLE_RADIUS_RANGE : RADIUS_RANGE;
+  }
+
+  // 在画布上拖动物体：径向位置决定半径（按滑块步长取整），adjustAngle 为 true（暂停）时沿圆周拖动设定起始角度（按 15° 取整）
+  public dragBlockTo(point: Vector2, adjustAngle: boolean): void {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+    const position = this.viewToPlane(point);
+    if (!position) return;
+
+    if (this.hasDraggableRadius) {
+      const { min, max, step } = this.radiusRange;
+      const radius = Math.min(Math.max(snapTo(Math.hypot(position.x, position.y), step), min), max);
+      if (radius !== this.radius) {
+        this.radius = radius;
+        this.onRadiusDragged?.(radius);
+      }
+    }
+
+    if (adjustAngle && (position.x !== 0 || position.y !== 0)) {
+      this.startAngle = normalizeAngle(snapTo(Math.atan2(position.y, position.x), ANGLE_SNAP));
+      this.placeAtAngle(this.startAngle);
+    }
+  }
+
+  // 用键盘移动物体：沿圆周转过 angleSteps 个 15°（adjustAngle 为 true 即暂停时），或按滑块步长改变半径
+  public nudgeBlock(angleSteps: number, radiusSteps: number, adjustAngle: boolean): void {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+
+    if (radiusSteps !== 0 && this.hasDraggableRadius) {
+      const { min, max, step } = this.radiusRange;
+      const radius = Math.min(Math.max(snapTo(this.radius + radiusSteps * step, step), min), max);
+      if (radius !== this.radius) {
+        this.radius = radius;
+        this.onRadiusDragged?.(radius);
+      }
+    }
+
+    if (angleSteps !== 0 && adjustAngle) {
+      this.startAngle = normalizeAngle(snapTo(this.angle, ANGLE_SNAP) + angleSteps * ANGLE_SNAP);
+      this.placeAtAngle(this.startAngle);
+    }
+  }
+
+  // 物体移到圆周上的另一位置，速率不变；竖直平面内的机械能按新的高度重新计算
+  private placeAtAngle(angle: number): void {
+    this.angle = angle;
+    this.frameAngle = angle;
+    this.specificEnergy = 0.5 * this.linearVelocity * this.linearVelocity + this.gravity * this.heightAboveBottom;
+    this.resyncMotion();
+    this.clearTrajectory();
+    this.resetHistory();
+  }
+
+  // 拖动圆心（钉子或支架）平移整个场景，按 10 像素取整
+  public dragCenterTo(point: Vector2): void {
+    this.centerPosition = {
+      x: snapTo(point.x, CENTER_SNAP_PIXELS),
+      y: snapTo(point.y, CENTER_SNAP_PIXELS)
+    };
+  }
+
+  // 恢复默认的画面布局和起始位置（切换场景或重置时调用）
+  public restoreLayout(): void {
+    this.centerPosition = { ...DEFAULT_CENTER_POSITION };
+    this.startAngle = null;
+  }
+
+  private stepVertical(dt: number): void {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      if (this.radius === 0) return;
+
+      const tension = this.tension;
+      if (tension > this.maxTension) {
+        this.breakRope();
+        return;
+      }
+      if (tension < 0) {
+        // 拉力不能为负：绳子松弛，物体脱离圆周
+        this.slackenRope();
+        return;
+      }
+
+      // 切向方程 φ'' = (g/r)·cosφ
+      const next = integrateStep(
+        this.integrator,
+        { positions: [this.angle], velocities: [this.angularRate] },
+        ([angle]) => [(this.gravity / this.radius) * Math.cos(angle)],
+        this.elapsedTime - dt,
+        dt
+      );
+      this.angle = normalizeAngle(next.positions[0]);
+      this.angularRate = next.velocities[0];
+
+      // 解析模式：由机械能守恒修正速率，消除数值积分的能量漂移；速率为零附近（摆动折返）交给积分处理
+      const speedSquared = 2 * (this.specificEnergy - this.gravity * this.heightAboveBottom);
+      if (this.integrator === Integrator.ANALYTIC && speedSquared > 0) {
+        this.angularRate = Math.sign(this.angularRate) * Math.sqrt(speedSquared) / this.radius;
+      }
+    } else {
+      // 绳子松弛或断裂后只受重力，做抛体运动
+      this.brokenVelocity.y += this.gravity * dt;
+      this.brokenPosition.x += this.brokenVelocity.x * dt;
+      this.brokenPosition.y += this.brokenVelocity.y * dt;
+
+      if (this.state === SimulationState.ROPE_SLACK && this.distanceFromCenter >= this.radius) {
+        this.tightenRope();
+      }
+    }
+  }
+
+  private stepConical(dt: number): void {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      // 即使不转动，摆球的重力也可能超过绳子的最大拉力
+      if (this.tension > this.maxTension) {
+        this.breakRope();
+        return;
+      }
+      this.angle = normalizeAngle(this.angle + this.angularVelocity * dt * this.directionMultiplier);
+    } else {
+      this.stepFreeFall(dt, 0);
+    }
+  }
+
+  // 平抛：水平方向匀速、竖直方向自由落体；落地时按恢复系数反弹，反弹速度过小则停在落点
+  private stepFreeFall(dt: number, restitution: number): void {
+    if (this.hasLanded) return;
+
+    const fallDistance = Math.min(
+      this.brokenVerticalSpeed * dt + 0.5 * this.gravity * dt * dt,
+      this.brokenHeight
+    );
+    this.brokenVerticalSpeed += this.gravity * dt;
+    this.brokenHeight -= fallDistance;
+
+    this.brokenPosition.x += this.brokenVelocity.x * dt;
+    this.brokenPosition.y += this.brokenVelocity.y * dt;
+
+    if (this.brokenHeight <= 0) {
+      this.brokenHeight = 0;
+      const reboundSpeed = this.brokenVerticalSpeed * restitution;
+      if (reboundSpeed > this.minBounceSpeed) {
+        this.brokenVerticalSpeed = -reboundSpeed;
+      } else {
+        this.brokenVerticalSpeed = 0;
+        this.brokenVelocity = { x: 0, y: 0 };
+      }
+    }
+  }
+
+  // 由离开圆周时的位置和速度预测离开桌边的位置、飞行时间和落点
+  private predictLanding(): LandingPrediction | null {
+    const start = this.brokenPosition;
+    const velocity = { ...this.brokenVelocity };
+    const timeToEdge = (position: number, speed: number, halfSize: number) => {
+      if (speed > 0) return (halfSize - position) / speed;
+      if (speed < 0) return (-halfSize - position) / speed;
+      return Infinity;
+    };
+    const exitTime = Math.min(
+      timeToEdge(start.x, velocity.x, this.tableHalfWidth),
+      timeToEdge(start.y, velocity.y, this.tableHalfDepth)
+    );
+    if (!Number.isFinite(exitTime)) return null;
+
+    // 离开圆周时已在桌面之外（如弹性绳被拉长超出桌边）：从当前位置直接下落
+    const flightTime = Math.sqrt(2 * this.tableHeight / this.gravity);
+    const exitPoint = exitTime <= 0
+      ? { ...start }
+      : { x: start.x + velocity.x * exitTime, y: start.y + velocity.y * exitTime };
+    return {
+      exitPoint,
+      velocity,
+      landingPoint: { x: exitPoint.x + velocity.x * flightTime, y: exitPoint.y + velocity.y * flightTime },
+      flightTime,
+      horizontalDistance: Math.hypot(velocity.x, velocity.y) * flightTime
+    };
+  }
+
+  private stepRoadCurve(dt: number): void {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      if (this.radius === 0) return;
+
+      // 所需静摩擦力（指向内侧为正）的大小超过最大静摩擦力：为正时车辆向外侧滑，
+      // 为负（倾角较大而车速低于最小安全速度）时车辆沿倾斜路面向内侧下滑
+      if (Math.abs(this.frictionForce) > this.maxStaticFriction) {
+        this.skidsInward = this.frictionForce < 0;
+        this.releaseBlock(SimulationState.SKIDDING);
+        return;
+      }
+      if (this.carSpeed === 0) return;
+      this.angle = normalizeAngle(this.angle + this.currentAngularSpeed * dt * this.directionMultiplier);
+    } else if (this.skidsInward) {
+      this.slideDownBank(dt);
+    } else {
+      // 侧滑后滑动摩擦力与速度反向（按水平路面近似，减速度 μg），车辆沿切线减速直至停下
+      const speed = Math.hypot(this.brokenVelocity.x, this.brokenVelocity.y);
+      if (speed === 0) return;
+
+      const speedRatio = Math.max(speed - this.frictionCoefficient * this.gravity * dt, 0) / speed;
+      this.brokenVelocity.x *= speedRatio;
+      this.brokenVelocity.y *= speedRatio;
+      this.brokenPosition.x += this.brokenVelocity.x * dt;
+      this.brokenPosition.y += this.brokenVelocity.y * dt;
+    }
+  }
+
+  // 向内侧下滑：水平面内受重力沿坡面向下分量的水平投影 g·sinβ·cosβ（指向圆心），
+  // 滑动摩擦力与速度反向（N ≈ mg·cosβ，水平投影减速度约 μg·cosβ）；滑到路面内缘后不再向内移动
+  private slideDownBank(dt: number): void {
+    const position = this.brokenPosition;
+    const distance = Math.hypot(position.x, position.y);
+    if (distance === 0) return;
+    const inward = { x: -position.x / distance, y: -position.y / distance };
+    const innerEdge = Math.max(this.radius - this.roadWidth / 2, 0);
+    const atInnerEdge = distance <= innerEdge;
+
+    if (!atInnerEdge) {
+      const downhill = this.gravity * Math.sin(this.bankAngle) * Math.cos(this.bankAngle);
+      this.brokenVelocity.x += downhill * inward.x * dt;
+      this.brokenVelocity.y += downhill * inward.y * dt;
+    }
+    const speed = Math.hypot(this.brokenVelocity.x, this.brokenVelocity.y);
+    if (speed > 0) {
+      const deceleration = this.frictionCoefficient * this.gravity * Math.cos(this.bankAngle);
+      const speedRatio = Math.max(speed - deceleration * dt, 0) / speed;
+      this.brokenVelocity.x *= speedRatio;
+      this.brokenVelocity.y *= speedRatio;
+    }
+
+    if (atInnerEdge) {
+      // 路面内缘挡住车辆：去掉指向圆心的速度分量，停在内缘上
+      const inwardSpeed = this.brokenVelocity.x * inward.x + this.brokenVelocity.y * inward.y;
+      if (inwardSpeed > 0) {
+        this.brokenVelocity.x -= inwardSpeed * inward.x;
+        this.brokenVelocity.y -= inwardSpeed * inward.y;
+      }
+      const scale = innerEdge / distance;
+      this.brokenPosition = { x: position.x * scale, y: position.y * scale };
+    }
+    this.brokenPosition.x += this.brokenVelocity.x * dt;
+    this.brokenPosition.y += this.brokenVelocity.y * dt;
+  }
+
+  // 物体到圆心的距离（m）
+  private get distanceFromCenter(): number {
+    const position = this.planePosition;
+    return Math.hypot(position.x, position.y);
+  }
+
+  // 按参数更新转盘上的物体，已有物体保留运动状态，新增物体从随盘转动开始
+  public setTurntableBodies(configs: TurntableBodyConfig[]): void {
+    const changedCount = configs.length !== this.turntableBodies.length;
+    this.turntableBodies = configs.map((config, index) => {
+      const existing = this.turntableBodies[index];
+      if (existing) return { ...existing, ...config };
+      return this.createTurntableBody(config, index);
+    });
+    // 物体数量变化后重新沿圆周均匀排开
+    if (changedCount) {
+      this.turntableBodies.forEach((body, index) => {
+        body.angleOffset = index * 2 * Math.PI / this.turntableBodies.length;
+      });
+    }
+  }
+
+  private createTurntableBody(config: TurntableBodyConfig, index: number): TurntableBody {
+    return {
+      ...config,
+      angleOffset: index * 2 * Math.PI / Math.max(this.turntableBodies.length, 1),
+      state: SimulationState.NORMAL_CIRCULAR_MOTION,
+      slipTime: null,
+      slipAngularVelocity: 0,
+      position: { x: 0, y: 0 },
+      velocity: { x: 0, y: 0 }
+    };
+  }
+
+  // 物体开始滑动的临界角速度：μmg = mω²r ⇒ ω = √(μg/r)，与质量无关
+  public getSlipAngularSpeed(body: TurntableBodyConfig): number {
+    if (body.radius <= 0) return Infinity;
+    return Math.sqrt(body.frictionCoefficient * this.gravity / body.radius);
+  }
+
+  // 随盘转动时所需的静摩擦力 f = mω²r（N），滑动后为零
+  public getTurntableFriction(body: TurntableBody): number {
+    if (body.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    return body.mass * this.currentAngularSpeed * this.currentAngularSpeed * body.radius;
+  }
+
+  // 按临界角速度从小到大排列，即滑动的先后顺序
+  public get slipOrder(): TurntableBody[] {
+    return [...this.turntableBodies].sort((a, b) => this.getSlipAngularSpeed(a) - this.getSlipAngularSpeed(b));
+  }
+
+  // 加速转动时预计开始滑动的时刻（s），不会滑动时为 null
+  public getPredictedSlipTime(body: TurntableBody): number | null {
+    if (body.slipTime !== null) return body.slipTime;
+    const slipSpeed = this.getSlipAngularSpeed(body);
+    if (this.currentAngularSpeed > slipSpeed) return this.elapsedTime;
+    if (this.angularAcceleration <= 0 || !Number.isFinite(slipSpeed)) return null;
+    return this.elapsedTime + (slipSpeed - this.currentAngularSpeed) / this.angularAcceleration;
+  }
+
+  // 物体相对转轴的世界坐标（m）
+  public getTurntableBodyPosition(body: TurntableBody): Vector2 {
+    if (body.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return body.position;
+    const angle = this.angle + body.angleOffset;
+    return { x: body.radius * Math.cos(angle), y: body.radius * Math.sin(angle) };
+  }
+
+  public getTurntableBodyVelocity(body: TurntableBody): Vector2 {
+    if (body.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return body.velocity;
+    const angle = this.angle + body.angleOffset;
+    const speed = this.currentAngularSpeed * body.radius * this.directionMultiplier;
+    return { x: -speed * Math.sin(angle), y: speed * Math.cos(angle) };
+  }
+
+  // 转盘：ω 在本步内线性变化，临界角速度被越过的物体在越限时刻沿切线滑出
+  private stepTurntable(dt: number): void {
+    const startSpeed = this.currentAngularSpeed;
+    const startAngle = this.angle;
+    this.rampTime += dt;
+
+    // 减速到零后转盘停止
+    const stopTime = this.angularAcceleration < 0 ? startSpeed / -this.angularAcceleration : Infinity;
+    const angleAt = (time: number): number => {
+      const t = Math.min(time, stopTime);
+      return startAngle + (startSpeed * t + 0.5 * this.angularAcceleration * t * t) * this.directionMultiplier;
+    };
+
+    this.turntableBodies.forEach(body => {
+      if (body.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+        const slipSpeed = this.getSlipAngularSpeed(body);
+        let slipOffset: number | null = null;
+        if (startSpeed > slipSpeed) {
+          slipOffset = 0;
+        } else if (this.angularAcceleration > 0 && startSpeed + this.angularAcceleration * dt > slipSpeed) {
+          slipOffset = (slipSpeed - startSpeed) / this.angularAcceleration;
+        }
+        if (slipOffset === null) return;
+
+        const slipAngle = angleAt(slipOffset) + body.angleOffset;
+        const slipAngularSpeed = startSpeed + this.angularAcceleration * slipOffset;
+        const speed = slipAngularSpeed * body.radius * this.directionMultiplier;
+        const remaining = dt - slipOffset;
+        body.state = SimulationState.SKIDDING;
+        body.slipTime = this.elapsedTime - dt + slipOffset;
+        body.slipAngularVelocity = slipAngularSpeed;
+        body.velocity = { x: -speed * Math.sin(slipAngle), y: speed * Math.cos(slipAngle) };
+        body.position = {
+          x: body.radius * Math.cos(slipAngle) + body.velocity.x * remaining,
+          y: body.radius * Math.sin(slipAngle) + body.velocity.y * remaining
+        };
+      } else {
+        body.position.x += body.velocity.x * dt;
+        body.position.y += body.velocity.y * dt;
+      }
+    });
+
+    this.angle = normalizeAngle(angleAt(dt));
+  }
+
+  public get centralBody(): CentralBodyProperties {
+    return ORBIT_CENTRAL_BODIES[this.orbitCentralBody];
+  }
+
+  // 引力常量与中心天体质量之积 GM（m³/s²）
+  private get gravitationalParameter(): number {
+    return GRAVITATIONAL_CONSTANT * this.centralBody.mass;
+  }
+
+  public get orbitDistance(): number {
+    return Math.hypot(this.orbitPosition.x, this.orbitPosition.y);
+  }
+
+  public get orbitSpeed(): number {
+    return Math.hypot(this.orbitVelocity.x, this.orbitVelocity.y);
+  }
+
+  // 发射点处的圆轨道速度 v₁ = √(GM/r)
+  public get circularOrbitSpeed(): number {
+    return Math.sqrt(this.gravitationalParameter / this.orbitRadius);
+  }
+
+  // 发射点处的逃逸速度 v₂ = √(2GM/r)
+  public get escapeSpeed(): number {
+    return Math.SQRT2 * this.circularOrbitSpeed;
+  }
+
+  // 当前位置的引力加速度 g = GM/r²（m/s²），方向指向中心天体
+  public get orbitGravityAcceleration(): number {
+    const distance = this.orbitDistance;
+    return distance > 0 ? this.gravitationalParameter / (distance * distance) : 0;
+  }
+
+  // 单位质量的机械能 ε = v²/2 - GM/r（J/kg），小于零时轨道闭合
+  private get orbitSpecificEnergy(): number {
+    return 0.5 * this.orbitSpeed * this.orbitSpeed - this.gravitationalParameter / this.orbitDistance;
+  }
+
+  // 偏心率矢量 e⃗ = ((v² - GM/r)r⃗ - (r⃗·v⃗)v⃗) / GM，指向近地点（近日点）
+  public get eccentricityVector(): Vector2 {
+    const { x, y } = this.orbitPosition;
+    const { x: vx, y: vy } = this.orbitVelocity;
+    const mu = this.gravitationalParameter;
+    const radialFactor = this.orbitSpeed * this.orbitSpeed - mu / this.orbitDistance;
+    const radialVelocity = x * vx + y * vy;
+    return {
+      x: (radialFactor * x - radialVelocity * vx) / mu,
+      y: (radialFactor * y - radialVelocity * vy) / mu
+    };
+  }
+
+  public get orbitEccentricity(): number {
+    const eccentricity = this.eccentricityVector;
+    return Math.hypot(eccentricity.x, eccentricity.y);
+  }
+
+  public get orbitType(): string {
+    const eccentricity = this.orbitEccentricity;
+    if (eccentricity < 0.01) return '圆轨道';
+    if (Math.abs(eccentricity - 1) < 0.01) return '抛物线轨道（逃逸）';
+    return eccentricity > 1 ? '双曲线轨道（逃逸）' : '椭圆轨道';
+  }
+
+  // 半长轴 a = -GM/(2ε)（m），不闭合的轨道为 Infinity
+  public get semiMajorAxis(): number {
+    const energy = this.orbitSpecificEnergy;
+    if (energy >= 0) return Infinity;
+    return -this.gravitationalParameter / (2 * energy);
+  }
+
+  // 开普勒第三定律：T = 2π√(a³/GM)（s）
+  public get orbitPeriod(): number {
+    const semiMajorAxis = this.semiMajorAxis;
+    if (!Number.isFinite(semiMajorAxis)) return Infinity;
+    return 2 * Math.PI * Math.sqrt(semiMajorAxis * semiMajorAxis * semiMajorAxis / this.gravitationalParameter);
+  }
+
+  // 半通径 p = h²/GM（m），用于绘制轨道的圆锥曲线 r = p / (1 + e·cosν)
+  public get semiLatusRectum(): number {
+    const angularMomentum = this.orbitPosition.x * this.orbitVelocity.y - this.orbitPosition.y * this.orbitVelocity.x;
+    return angularMomentum * angularMomentum / this.gravitationalParameter;
+  }
+
+  // 从发射点以设定速度沿切线方向发射，发射点在中心天体右侧
+  private launchOrbit(): void {
+    const speed = this.launchSpeedRatio * this.circularOrbitSpeed;
+    this.orbitPosition = { x: this.orbitRadius, y: 0 };
+    this.orbitVelocity = { x: 0, y: speed * this.directionMultiplier };
+    this.orbitTime = 0;
+    this.orbitTrail = [];
+    this.measuredOrbitPeriod = null;
+    this.orbitSweptAngle = 0;
+    this.lastLapTime = 0;
+  }
+
+  // 万有引力提供向心力：在加速后的仿真时间内用 RK4 分小步积分 a⃗ = -GM·r⃗/r³
+  private stepOrbit(dt: number): void {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+
+    const mu = this.gravitationalParameter;
+    const acceleration: AccelerationFunction = ([x, y]) => {
+      const distance = Math.hypot(x, y);
+      const factor = -mu / (distance * distance * distance);
+      return [factor * x, factor * y];
+    };
+    const substep = dt * this.centralBody.timeScale / this.orbitSubsteps;
+
+    for (let i = 0; i < this.orbitSubsteps; i++) {
+      const startAngle = Math.atan2(this.orbitPosition.y, this.orbitPosition.x);
+      const next = integrateStep(
+        Integrator.RK4,
+        {
+          positions: [this.orbitPosition.x, this.orbitPosition.y],
+          velocities: [this.orbitVelocity.x, this.orbitVelocity.y]
+        },
+        acceleration,
+        this.orbitTime,
+        substep
+      );
+      this.orbitPosition = { x: next.positions[0], y: next.positions[1] };
+      this.orbitVelocity = { x: next.velocities[0], y: next.velocities[1] };
+      this.orbitTime += substep;
+
+      if (this.orbitDistance <= this.centralBody.radius) {
+        this.state = SimulationState.CRASHED;
+        break;
+      }
+
+      // 累计转过的角度，每转满一圈记录一次实测周期
+      const endAngle = Math.atan2(this.orbitPosition.y, this.orbitPosition.x);
+      this.orbitSweptAngle += normalizeAngle(endAngle - startAngle + Math.PI) - Math.PI;
+      if (Math.abs(this.orbitSweptAngle) >= 2 * Math.PI) {
+        this.measuredOrbitPeriod = this.orbitTime - this.lastLapTime;
+        this.lastLapTime = this.orbitTime;
+        this.orbitSweptAngle -= Math.sign(this.orbitSweptAngle) * 2 * Math.PI;
+      }
+    }
+
+    this.orbitTrail.push({ ...this.orbitPosition, time: this.elapsedTime });
+    if (this.orbitTrail.length > this.maxOrbitTrailPoints) {
+      this.orbitTrail.shift();
+    }
+  }
+
+  public readonly bridgeViewWidth: number = 540; // 路面在画面上的宽度（像素）
+
+  // 平直路面 → 凹形路面 → 拱桥 → 平直路面，凹形路面与拱桥在连接处相切
+  public get roadProfile(): RoadProfileSection[] {
+    const sinAngle = Math.sin(this.bridgeArcAngle);
+    const cosAngle = Math.cos(this.bridgeArcAngle);
+    const dipStart = this.bridgeApproachLength;
+    const dipBottomX = dipStart + this.dipRadius * sinAngle;
+    const archStart = dipBottomX + this.dipRadius * sinAngle;
+    const archTopX = archStart + this.archRadius * sinAngle;
+    const archEnd = archTopX + this.archRadius * sinAngle;
+    return [
+      { name: '平直路面', startX: 0, endX: dipStart, centerX: 0, centerY: 0, curvature: 0 },
+      {
+        name: '凹形路面',
+        startX: dipStart,
+        endX: archStart,
+        centerX: dipBottomX,
+        centerY: this.dipRadius * cosAngle,
+        curvature: 1 / this.dipRadius
+      },
+      {
+        name: '拱桥',
+        startX: archStart,
+        endX: archEnd,
+        centerX: archTopX,
+        centerY: -this.archRadius * cosAngle,
+        curvature: -1 / this.archRadius
+      },
+      {
+        name: '平直路面',
+        startX: archEnd,
+        endX: archEnd + this.bridgeApproachLength,
+        centerX: 0,
+        centerY: 0,
+        curvature: 0
+      }
+    ];
+  }
+
+  public get bridgeLength(): number {
+    const profile = this.roadProfile;
+    return profile[profile.length - 1].endX;
+  }
+
+  public getRoadSection(x: number): RoadProfileSection {
+    const profile = this.roadProfile;
+    return profile.find(section => x < section.endX) ?? profile[profile.length - 1];
+  }
+
+  // 路面高度（m）：凹形路面的圆心在上方，拱桥的圆心在下方
+  public getRoadHeight(x: number): number {
+    const section = this.getRoadSection(x);
+    if (section.curvature === 0) return 0;
+    const radius = 1 / Math.abs(section.curvature);
+    const dx = x - section.centerX;
+    const offset = Math.sqrt(Math.max(radius * radius - dx * dx, 0));
+    return section.curvature > 0 ? section.centerY - offset : section.centerY + offset;
+  }
+
+  // 路面倾角 φ（rad），上坡为正
+  public getRoadSlope(x: number): number {
+    const section = this.getRoadSection(x);
+    if (section.curvature === 0) return 0;
+    const radius = 1 / Math.abs(section.curvature);
+    const dx = x - section.centerX;
+    const slope = dx / Math.sqrt(Math.max(radius * radius - dx * dx, 1e-9));
+    return Math.atan(section.curvature > 0 ? slope : -slope);
+  }
+
+  // 路面支持力 N = m(g·cosφ + κv²)：凹形路面 N ＞ mg·cosφ，拱桥上 N ＜ mg·cosφ，腾空时为零
+  public get bridgeNormalForce(): number {
+    if (this.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return 0;
+    const x = this.bridgeCarPosition.x;
+    const curvature = this.getRoadSection(x).curvature;
+    return this.mass * (this.gravity * Math.cos(this.getRoadSlope(x)) + curvature * this.carSpeed * this.carSpeed);
+  }
+
+  // 拱桥最高点不离开路面的最大速度 v = √(gR)
+  public get archCriticalSpeed(): number {
+    return Math.sqrt(this.gravity * this.archRadius);
+  }
+
+  // 汽车沿路面匀速率行驶；支持力降为零时离开路面做抛体运动，落回路面后继续行驶，驶出路面后从起点重新出发
+  private stepBridge(dt: number): void {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const slope = this.getRoadSlope(this.bridgeCarPosition.x);
+      if (this.bridgeNormalForce <= 0 && this.carSpeed > 0) {
+        this.state = SimulationState.AIRBORNE;
+        this.bridgeCarVelocity = { x: this.carSpeed * Math.cos(slope), y: this.carSpeed * Math.sin(slope) };
+      } else {
+        const x = this.bridgeCarPosition.x + this.carSpeed * Math.cos(slope) * dt;
+        this.bridgeCarPosition = { x, y: this.getRoadHeight(x) };
+      }
+    }
+
+    if (this.state === SimulationState.AIRBORNE) {
+      // 按抛体运动的精确解推进，避免离开路面的第一步就被判为落回路面
+      this.bridgeCarPosition = {
+        x: this.bridgeCarPosition.x + this.bridgeCarVelocity.x * dt,
+        y: this.bridgeCarPosition.y + this.bridgeCarVelocity.y * dt - 0.5 * this.gravity * dt * dt
+      };
+      this.bridgeCarVelocity.y -= this.gravity * dt;
+      const roadHeight = this.getRoadHeight(this.bridgeCarPosition.x);
+      if (this.bridgeCarPosition.y <= roadHeight) {
+        this.bridgeCarPosition.y = roadHeight;
+        this.state = SimulationState.NORMAL_CIRCULAR_MOTION;
+      }
+    }
+
+    if (this.bridgeCarPosition.x >= this.bridgeLength) {
+      this.bridgeCarPosition = { x: 0, y: 0 };
+      this.state = SimulationState.NORMAL_CIRCULAR_MOTION;
+    }
+  }
+
+  // 距上一个点满一个间隔时记录新点；比较时留出舍入余量，使间隔恰为物理步长整数倍时不会推迟一步
+  private collectTrajectoryPoint(): void {
+    const time = this.elapsedTime;
+    const isDue = (points: TrajectoryPoint[], interval: number) =>
+      points.length === 0 || time - points[points.length - 1].time >= interval - this.fixedTimeStep / 2;
+    const recordTrajectory = isDue(this.trajectoryPoints, this.trajectorySampleInterval);
+    const recordStrobe = this.showStrobe && isDue(this.strobeImages, this.strobeInterval);
+    if (!recordTrajectory && !recordStrobe) return;
+
+    const isCircular = this.state === SimulationState.NORMAL_CIRCULAR_MOTION;
+    const point: TrajectoryPoint = {
+      ...this.getBlockWorldPosition(),
+      frameAngle: this.frameAngle,
+      time,
+      velocity: this.blockWorldVelocity,
+      speed: this.linearVelocity,
+      tension: isCircular && this.mode !== SimulationMode.ROAD_CURVE ? this.tension : 0
+    };
+
+    if (recordTrajectory) {
+      this.trajectoryPoints.push(point);
+      // 只保留最近 trailDuration 内的轨迹，保持性能
+      while (this.trajectoryPoints[0].time < time - this.trailDuration) {
+        this.trajectoryPoints.shift();
+      }
+    }
+    if (recordStrobe) {
+      this.strobeImages.push(point);
+      if (this.strobeImages.length > this.maxStrobeImages) {
+        this.strobeImages.shift();
+      }
+    }
+  }
+
+  // 记录断裂时刻和此时的角速度，默认取当前时刻
+  private breakRope(time: number = this.elapsedTime, angularSpeed: number = this.currentAngularSpeed): void {
+    this.breakTime = Math.max(time, 0);
+    this.breakAngularVelocity = angularSpeed;
+    this.releaseBlock(SimulationState.ROPE_BROKEN);
+    this.finishExperiment();
+    this.onRopeBroken?.();
+  }
+
+  private slackenRope(): void {
+    this.releaseBlock(SimulationState.ROPE_SLACK);
+  }
+
+  // 物体脱离圆周：记录此刻的位置和速度，之后由自由运动规律接管
+  private releaseBlock(state: SimulationState): void {
+    const currentPosition = this.planePosition;
+    const currentVelocity = this.getCurrentVelocity();
+
+    this.state = state;
+    this.brokenPosition = { ...currentPosition };
+    this.brokenVelocity = { ...currentVelocity };
+    this.brokenHeight = this.releaseHeight;
+    this.brokenVerticalSpeed = 0;
+    this.landingPrediction = this.hasTable ? this.predictLanding() : null;
+  }
+
+  // 松弛的绳子重新绷紧：径向速度被绳子瞬间吸收，只保留切向速度
+  private tightenRope(): void {
+    this.angle = normalizeAngle(Math.atan2(this.brokenPosition.y, this.brokenPosition.x));
+
+    const tangentialSpeed =
+      -this.brokenVelocity.x * Math.sin(this.angle) + this.brokenVelocity.y * Math.cos(this.angle);
+    this.angularRate = tangentialSpeed / this.radius;
+    this.state = SimulationState.NORMAL_CIRCULAR_MOTION;
+    this.specificEnergy = 0.5 * tangentialSpeed * tangentialSpeed + this.gravity * this.heightAboveBottom;
+  }
+
+  // 物体在圆周平面内相对圆心的坐标（m）
+  public get planePosition(): Vector2 {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const radius = this.actualRadius;
+      return { x: radius * Math.cos(this.angle), y: radius * Math.sin(this.angle) };
+    }
+    return this.brokenPosition;
+  }
+
+  // 物体的速度（世界坐标，m/s）：脱离圆周后叠加平抛的竖直速度
+  public get blockWorldVelocity(): Vector3 {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      return this.planeToWorld(this.getCurrentVelocity());
+    }
+    const velocity = this.planeToWorld(this.brokenVelocity);
+    return { ...velocity, z: velocity.z - this.brokenVerticalSpeed };
+  }
+
+  // 物体的世界坐标（m）：脱离圆周后的高度以桌面（或水平面）为 z = 0
+  public getBlockWorldPosition(): Vector3 {
+    if (this.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      return this.planeToWorld(this.planePosition, this.bobHeight);
+    }
+    const groundLevel = this.hasTable ? -this.tableHeight : 0;
+    return this.planeToWorld(this.brokenPosition, groundLevel + this.brokenHeight);
+  }
+
+  public getBlockPosition(): Vector2 {
+    return this.projectToScreen(this.getBlockWorldPosition());
+  }
+
+  private getCurrentVelocity(): Vector2 {
+    if (this.usesNumericState) {
+      return { ...this.numericVelocity };
+    }
+
+    // 获取当前线速度方向（切线方向），带方向的角速度决定沿切线的朝向
+    const tangentAngle = this.angle + Math.PI / 2;
+    const signedAngularVelocity = this.mode === SimulationMode.VERTICAL
+      ? this.angularRate
+      : this.currentAngularSpeed * this.directionMultiplier;
+    const velocity = signedAngularVelocity * this.circleRadius; // m/s
+
+    // 圆周平面内的速度（m/s）
+    return {
+      x: velocity * Math.cos(tangentAngle),
+      y: velocity * Math.sin(tangentAngle)
+    };
+  }
+
+  public reset(): void {
+    this.state = SimulationState.NORMAL_CIRCULAR_MOTION;
+    this.sweptAngle = 0;
+    // 竖直平面内默认从最低点出发，角速度滑块给出出发点的角速度
+    this.angle = this.startAngle ?? (this.mode === SimulationMode.VERTICAL ? Math.PI / 2 : 0);
+    this.angularRate = this.angularVelocity * this.directionMultiplier;
+    this.specificEnergy = 0.5 * this.linearVelocity * this.linearVelocity + this.gravity * this.heightAboveBottom;
+    this.brokenPosition = { x: 0, y: 0 };
+    this.brokenVelocity = { x: 0, y: 0 };
+    this.skidsInward = false;
+    this.brokenHeight = 0;
+    this.brokenVerticalSpeed = 0;
+    this.landingPrediction = null;
+    this.frameAngle = this.angle;
+    this.turntableBodies = this.turntableBodies.map((body, index) => this.createTurntableBody(body, index));
+    this.launchOrbit();
+    this.bridgeCarPosition = { x: 0, y: 0 };
+    this.bridgeCarVelocity = { x: 0, y: 0 };
+    this.elapsedTime = 0;
+    this.accumulator = 0;
+    this.rampTime = 0;
+    this.numericStateValid = false;
+    this.breakTime = null;
+    this.breakAngularVelocity = 0;
+    this.experimentVariable = null;
+    this.lastExperimentRun = null;
+    this.motorWork = 0;
+    this.dragHeat = 0;
+    this.energyHistory = [];
+    this.motionHistory = [];
+    this.trajectoryPoints = []; // 清除轨迹
+    this.strobeImages = [];
+    this.resetHistory();
+  }
+
+  public clearTrajectory(): void {
+    this.trajectoryPoints = [];
+    this.strobeImages = [];
+    this.orbitTrail = [];
+    this.rewoundSamples.trajectoryPoints = [];
+    this.rewoundSamples.strobeImages = [];
+    this.rewoundSamples.orbitTrail = [];
+  }
+
+  // 供屏幕阅读器朗读的当前状态，内容与画布左上角的状态文字对应
+  public get stateDescription(): string {
+    const speed = `${this.linearVelocity.toFixed(2)} m/s`;
+    const tension = `拉力 ${this.tension.toFixed(2)} N（最大拉力 ${this.maxTension.toFixed(1)} N）`;
+    const direction = (this.mode === SimulationMode.VERTICAL ? this.angularRate >= 0 : this.directionMultiplier > 0)
+      ? '顺时针'
+      : '逆时针';
+    const isNormal = this.state === SimulationState.NORMAL_CIRCULAR_MOTION;
+
+    if (this.mode === SimulationMode.VERTICAL) {
+      const height = this.heightAboveBottom >= 0
+        ? `高出圆周最低点 ${this.heightAboveBottom.toFixed(2)} m`
+        : `低于圆周最低点 ${(-this.heightAboveBottom).toFixed(2)} m`;
+      if (isNormal) return `物体在竖直平面内沿${direction}方向运动，${height}，速度 ${speed}，${tension}`;
+      const motion = this.state === SimulationState.ROPE_SLACK ? '绳子松弛' : '绳子已断';
+      return `${motion}，物体做抛体运动，${height}，速度 ${speed}`;
+    }
+    if (this.mode === SimulationMode.CONICAL) {
+      if (!isNormal) return this.brokenHeight > 0 ? '绳子已断，摆球做平抛运动' : '绳子已断，摆球已落到平面上';
+      if (this.coneAngle === 0) return `摆球竖直下垂，拉力 ${this.tension.toFixed(2)} N`;
+      return `摆球沿${direction}方向做圆锥摆运动，锥角 ${(this.coneAngle * 180 / Math.PI).toFixed(1)}°，` +
+        `半径 ${this.circleRadius.toFixed(2)} m，速度 ${speed}，${tension}`;
+    }
+    if (this.mode === SimulationMode.ROAD_CURVE) {
+      if (!isNormal) return `${this.skidsInward ? '车辆向内侧下滑' : '车辆侧滑'}，速度 ${speed}`;
+      return `汽车以 ${this.carSpeed.toFixed(1)} m/s 转弯，所需静摩擦力 ${this.frictionForce.toFixed(0)} N，` +
+        `最大静摩擦力 ${this.maxStaticFriction.toFixed(0)} N`;
+    }
+    if (this.mode === SimulationMode.TURNTABLE) {
+      const slipped = this.turntableBodies.filter(body => body.state !== SimulationState.NORMAL_CIRCULAR_MOTION).length;
+      return `转盘以 ${this.currentAngularSpeed.toFixed(2)} rad/s 转动，${this.turntableBodies.length} 个物体中 ${slipped} 个已滑出`;
+    }
+    if (this.mode === SimulationMode.ORBIT) {
+      const { name, distanceUnit } = this.centralBody;
+      if (this.state === SimulationState.CRASHED) return `卫星已撞上${name}`;
+      const distance = this.orbitDistance / distanceUnit.size;
+      return `卫星沿${this.orbitType}运动，速度 ${(this.orbitSpeed / 1000).toFixed(2)} km/s，` +
+        `距${name}中心 ${distance.toFixed(distanceUnit.size > 1e3 ? 2 : 0)} ${distanceUnit.label}`;
+    }
+    if (this.mode === SimulationMode.BRIDGE) {
+      if (!isNormal) return '汽车离开路面做抛体运动，乘客完全失重';
+      const section = this.getRoadSection(this.bridgeCarPosition.x);
+      return `汽车以 ${this.carSpeed.toFixed(1)} m/s 行驶在${section.name}，支持力 ${this.bridgeNormalForce.toFixed(0)} N，` +
+        `重力 ${(this.mass * this.gravity).toFixed(0)} N`;
+    }
+
+    if (!isNormal) {
+      if (this.hasTable && this.hasLanded) return '绳子已断，物体已落地';
+      if (this.hasTable && !this.isOnTable) return `绳子已断，物体离开桌边做平抛运动，速度 ${speed}`;
+      return `绳子已断，物体以 ${speed} 做匀速直线运动`;
+    }
+    if (this.currentAngularSpeed === 0) return '物体静止';
+    return `物体沿${direction}方向做圆周运动，速度 ${speed}，半径 ${this.circleRadius.toFixed(2)} m，${tension}`;
+  }
+
+  public get skidMessage(): string {
+    return this.skidsInward
+      ? '车辆向内侧下滑！车速低于最小安全速度，最大静摩擦力不足以阻止下滑'
+      : '车辆侧滑！静摩擦力不足以提供向心力';
+  }
+
+  // 需要立即朗读的事件（断绳、侧滑、落地等），圆周运动正常进行时为空字符串；内容改变时朗读
+  public get eventAnnouncement(): string {
+    if (this.mode === SimulationMode.TURNTABLE) {
+      const slipped = this.turntableBodies
+        .map((body, index) => (body.state !== SimulationState.NORMAL_CIRCULAR_MOTION ? `物体${index + 1}` : ''))
+        .filter(label => label !== '');
+      return slipped.length > 0 ? `${slipped.join('、')}已相对转盘滑动` : '';
+    }
+
+    if (this.state === SimulationState.ROPE_SLACK) return '绳子松弛！物体做抛体运动';
+    if (this.state === SimulationState.ROPE_BROKEN) {
+      const landed = (this.hasTable || this.mode === SimulationMode.CONICAL) && this.hasLanded;
+      return landed ? '物体已落地' : `绳子断裂！拉力超过了最大拉力 ${this.maxTension.toFixed(1)} N`;
+    }
+    if (this.state === SimulationState.SKIDDING) return this.skidMessage;
+    if (this.state === SimulationState.CRASHED) return `速度太小，卫星撞上${this.centralBody.name}！`;
+    if (this.state === SimulationState.AIRBORNE) return '支持力降为零，汽车离开路面';
+    return '';
+  }
+}
@@ -0,0 +1,152 @@
+import { drawArrow } from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Vector2, type Vector3 } from './SceneryNode';
+import { dotProduct, FORCE_KINDS, scaleVector, SimulationState } from './simulationTypes';
+
+// 受力分析图（右侧）：物体所受的各个力按同一比例尺（N/像素）画出，可分解为径向和切向分量
+export class FreeBodyDiagramNode extends SceneryNode {
+  private width: number = 150;
+  private titleHeight: number = 16;
+  private diagramHeight: number = 90;
+  private rowHeight: number = 13;
+  private maxArrowLength: number = 40; // 最大的力对应的箭头长度上限（像素）
+  private scaleBarLength: number = 30;
+  private minProjectedLength: number = 4; // 投影短于此长度的力沿视线方向，改用 ⊙/⊗ 表示
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 440;
+    this.y = 108;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.showFreeBodyDiagram) return;
+    const forces = this.model.blockForces;
+    if (forces.length === 0) return;
+
+    const height = this.titleHeight + this.diagramHeight + (forces.length + 1) * this.rowHeight + 6;
+    context.fillStyle = this.model.palette.panel;
+    context.fillRect(0, 0, this.width, height);
+    context.strokeStyle = this.model.palette.panelStroke;
+    context.lineWidth = 1;
+    context.strokeRect(0, 0, this.width, height);
+    context.fillStyle = this.model.palette.text;
+    context.font = '11px Arial';
+    context.fillText('受力分析', 6, 13);
+
+    // 比例尺取 1、2、5 × 10ⁿ N，使最大的力不超过 maxArrowLength
+    const maxForce = Math.max(...forces.map(({ force }) => Math.hypot(force.x, force.y, force.z)));
+    const scaleBarForce = this.niceValue(maxForce * this.scaleBarLength / this.maxArrowLength);
+    const pixelsPerNewton = this.scaleBarLength / scaleBarForce;
+
+    const center = { x: this.width / 2, y: this.titleHeight + this.diagramHeight / 2 };
+    let perpendicularCount = 0;
+    forces.forEach(({ kind, force }) => {
+      const { symbol, quantity } = FORCE_KINDS[kind];
+      const color = this.model.palette.quantities[quantity];
+      const end = this.projectForce(center, force, pixelsPerNewton);
+      if (Math.hypot(end.x - center.x, end.y - center.y) < this.minProjectedLength) {
+        const symbolCenter = { x: center.x + 18 + perpendicularCount * 30, y: center.y - 14 };
+        this.renderPerpendicular(context, symbolCenter, this.model.camera.depthOf(force) > 0, color, symbol);
+        perpendicularCount++;
+        return;
+      }
+      if (this.model.showForceComponents && this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+        this.renderComponents(context, center, force, pixelsPerNewton, color, symbol);
+      }
+      drawArrow(context, center, end, color, symbol);
+    });
+
+    context.fillStyle = this.model.palette.block;
+    context.fillRect(center.x - 4, center.y - 4, 8, 8);
+
+    // 图例：比例尺和各力的大小
+    let rowY = this.titleHeight + this.diagramHeight + this.rowHeight - 2;
+    context.strokeStyle = this.model.palette.text;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(8, rowY - 4);
+    context.lineTo(8 + this.scaleBarLength, rowY - 4);
+    context.stroke();
+    context.fillStyle = this.model.palette.text;
+    context.font = '11px Arial';
+    context.fillText(`= ${scaleBarForce} N`, 14 + this.scaleBarLength, rowY);
+    forces.forEach(({ kind, force }) => {
+      rowY += this.rowHeight;
+      const { label, symbol, quantity } = FORCE_KINDS[kind];
+      context.fillStyle = this.model.palette.quantities[quantity];
+      context.fillText(`${label} ${symbol} = ${Math.hypot(force.x, force.y, force.z).toFixed(2)} N`, 8, rowY);
+    });
+  }
+
+  // 力在所选参考系下的屏幕投影，以 center 为起点
+  private projectForce(center: Vector2, force: Vector3, pixelsPerNewton: number): Vector2 {
+    const projected = this.model.projectViewDirection(force);
+    return { x: center.x + projected.x * pixelsPerNewton, y: center.y + projected.y * pixelsPerNewton };
+  }
+
+  // 径向分量（下标 n）和切向分量（下标 t）用虚线画出；力本身就沿某一方向时不再重复
+  private renderComponents(
+    context: CanvasRenderingContext2D,
+    center: Vector2,
+    force: Vector3,
+    pixelsPerNewton: number,
+    color: string,
+    symbol: string
+  ): void {
+    const magnitude = Math.hypot(force.x, force.y, force.z);
+    const components: [Vector3, string][] = [
+      [this.model.radialDirection, `${symbol}ₙ`],
+      [this.model.tangentialDirection, `${symbol}ₜ`]
+    ];
+    components.forEach(([direction, label]) => {
+      const component = scaleVector(direction, dotProduct(force, direction));
+      const componentMagnitude = Math.hypot(component.x, component.y, component.z);
+      if (componentMagnitude > magnitude * 0.999) return;
+      const end = this.projectForce(center, component, pixelsPerNewton);
+      if (Math.hypot(end.x - center.x, end.y - center.y) < this.minProjectedLength) return;
+      drawArrow(context, center, end, color, label, true);
+    });
+  }
+
+  // 沿视线的力：指向观察者为 ⊙，背离观察者为 ⊗
+  private renderPerpendicular(
+    context: CanvasRenderingContext2D,
+    position: Vector2,
+    towardViewer: boolean,
+    color: string,
+    symbol: string
+  ): void {
+    const radius = 5;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = 1.5;
+    context.beginPath();
+    context.arc(position.x, position.y, radius, 0, 2 * Math.PI);
+    context.stroke();
+
+    if (towardViewer) {
+      context.beginPath();
+      context.arc(position.x, position.y, 1.5, 0, 2 * Math.PI);
+      context.fill();
+    } else {
+      const offset = radius * Math.SQRT1_2;
+      context.beginPath();
+      context.moveTo(position.x - offset, position.y - offset);
+      context.lineTo(position.x + offset, position.y + offset);
+      context.moveTo(position.x + offset, position.y - offset);
+      context.lineTo(position.x - offset, position.y + offset);
+      context.stroke();
+    }
+
+    context.font = '11px Arial';
+    context.fillText(symbol, position.x - 5, position.y + radius + 11);
+  }
+
+  // 不小于 value 的 1、2、5 × 10ⁿ
+  private niceValue(value: number): number {
+    const power = Math.pow(10, Math.floor(Math.log10(value)));
+    const step = [1, 2, 5, 10].find(candidate => candidate * power >= value * (1 - 1e-9)) ?? 10;
+    return Number((step * power).toPrecision(1));
+  }
+}
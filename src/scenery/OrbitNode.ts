@@ -0,0 +1,124 @@
+import { drawArrow } from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Vector2 } from './SceneryNode';
+import { SimulationMode, SimulationState } from './simulationTypes';
+
+// 天体运动：中心天体、由当前速度决定的轨道（虚线）、运动轨迹、卫星及其速度和引力箭头
+export class OrbitNode extends SceneryNode {
+  private sampleCount: number = 180;
+  private minBodyPixels: number = 8; // 太阳按比例太小，绘制时放大
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.ORBIT) return;
+
+    const center = this.model.centerPosition;
+    const centralBody = this.model.centralBody;
+    context.fillStyle = centralBody.color;
+    context.beginPath();
+    context.arc(
+      center.x,
+      center.y,
+      Math.max(centralBody.radius * this.model.pixelsPerMeter, this.minBodyPixels),
+      0,
+      2 * Math.PI
+    );
+    context.fill();
+
+    this.renderConic(context);
+    this.renderTrail(context);
+
+    const satellite = this.toScreen(this.model.orbitPosition);
+    context.fillStyle = this.model.palette.block;
+    context.beginPath();
+    context.arc(satellite.x, satellite.y, 5, 0, 2 * Math.PI);
+    context.fill();
+
+    if (this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+
+    // 速度箭头以第一宇宙速度为参照，引力箭头以发射点处的引力为参照
+    const velocityAngle = Math.atan2(this.model.orbitVelocity.y, this.model.orbitVelocity.x);
+    const velocityLength = Math.max(20, Math.min(50 * this.model.orbitSpeed / this.model.circularOrbitSpeed, 90));
+    drawArrow(
+      context,
+      satellite,
+      { x: satellite.x + velocityLength * Math.cos(velocityAngle), y: satellite.y + velocityLength * Math.sin(velocityAngle) },
+      this.model.palette.quantities.velocity,
+      'v'
+    );
+
+    const gravityAngle = Math.atan2(center.y - satellite.y, center.x - satellite.x);
+    const launchGravity = this.model.circularOrbitSpeed * this.model.circularOrbitSpeed / this.model.orbitRadius;
+    const gravityLength = Math.max(15, Math.min(40 * this.model.orbitGravityAcceleration / launchGravity, 80));
+    drawArrow(
+      context,
+      satellite,
+      { x: satellite.x + gravityLength * Math.cos(gravityAngle), y: satellite.y + gravityLength * Math.sin(gravityAngle) },
+      this.model.palette.quantities.gravity,
+      'F'
+    );
+  }
+
+  private toScreen(point: Vector2): Vector2 {
+    return this.model.projectToScreen({ ...point, z: 0 });
+  }
+
+  // 轨道方程 r = p / (1 + e·cos(θ - θₚ))，θₚ 为近地点方向；不闭合的轨道只画渐近线以内的部分
+  private renderConic(context: CanvasRenderingContext2D): void {
+    const eccentricityVector = this.model.eccentricityVector;
+    const eccentricity = this.model.orbitEccentricity;
+    const periapsisAngle = Math.atan2(eccentricityVector.y, eccentricityVector.x);
+    const semiLatusRectum = this.model.semiLatusRectum;
+    const maxAnomaly = eccentricity < 1 ? Math.PI : Math.acos(-1 / eccentricity) * 0.98;
+    const maxDistance = 2 * this.model.centerPosition.x / this.model.pixelsPerMeter;
+
+    context.strokeStyle = this.model.palette.guide;
+    context.lineWidth = 1;
+    context.setLineDash([5, 5]);
+    context.beginPath();
+    let penDown = false;
+    for (let i = 0; i <= this.sampleCount; i++) {
+      const anomaly = -maxAnomaly + 2 * maxAnomaly * i / this.sampleCount;
+      const distance = semiLatusRectum / (1 + eccentricity * Math.cos(anomaly));
+      if (distance > maxDistance) {
+        penDown = false;
+        continue;
+      }
+      const point = this.toScreen({
+        x: distance * Math.cos(periapsisAngle + anomaly),
+        y: distance * Math.sin(periapsisAngle + anomaly)
+      });
+      if (penDown) {
+        context.lineTo(point.x, point.y);
+      } else {
+        context.moveTo(point.x, point.y);
+        penDown = true;
+      }
+    }
+    context.stroke();
+    context.setLineDash([]);
+  }
+
+  private renderTrail(context: CanvasRenderingContext2D): void {
+    const trail = this.model.orbitTrail;
+    if (trail.length < 2) return;
+
+    context.strokeStyle = this.model.palette.trajectory;
+    context.lineWidth = 2;
+    context.globalAlpha = 0.7;
+    context.beginPath();
+    trail.forEach((point, index) => {
+      const screen = this.toScreen(point);
+      if (index === 0) {
+        context.moveTo(screen.x, screen.y);
+      } else {
+        context.lineTo(screen.x, screen.y);
+      }
+    });
+    context.stroke();
+    context.globalAlpha = 1;
+  }
+}
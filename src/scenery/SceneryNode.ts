@@ -0,0 +1,172 @@
+// PhET Scenery 风格的场景图（简化版）：节点树、局部变换、z 顺序、可见性、包围盒与指针命中检测
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// 轴对齐包围盒（像素）
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const unionBounds = (a: Bounds | null, b: Bounds | null): Bounds | null => {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY)
+  };
+};
+
+export const boundsContainPoint = (bounds: Bounds, point: Vector2): boolean =>
+  point.x >= bounds.minX && point.x <= bounds.maxX && point.y >= bounds.minY && point.y <= bounds.maxY;
+
+// 场景图节点：局部坐标系先缩放、再旋转、最后平移到父节点坐标系中
+export abstract class SceneryNode {
+  public x: number = 0;        // 相对父节点的平移（像素）
+  public y: number = 0;
+  public rotation: number = 0; // rad
+  public scale: number = 1;
+  public visible: boolean = true;
+  public pickable: boolean = true; // 为 false 时该节点及其子节点不参与命中检测
+  public zIndex: number = 0;       // 同一父节点下按 zIndex 从小到大绘制，相同时按加入顺序
+  public hitPadding: number = 0;   // 命中检测时局部包围盒向外扩展的距离，便于用手指拖动较小的节点
+
+  private children: SceneryNode[] = [];
+  private parent: SceneryNode | null = null;
+
+  public get childNodes(): readonly SceneryNode[] {
+    return this.children;
+  }
+
+  public addChild(child: SceneryNode): this {
+    child.parent?.removeChild(child);
+    child.parent = this;
+    this.children.push(child);
+    return this;
+  }
+
+  public removeChild(child: SceneryNode): void {
+    const index = this.children.indexOf(child);
+    if (index < 0) return;
+    this.children.splice(index, 1);
+    child.parent = null;
+  }
+
+  public render(context: CanvasRenderingContext2D): void {
+    if (!this.visible) return;
+    this.update();
+
+    context.save();
+    context.translate(this.x, this.y);
+    if (this.rotation !== 0) context.rotate(this.rotation);
+    if (this.scale !== 1) context.scale(this.scale, this.scale);
+    this.paintSelf?.(context);
+    this.orderedChildren().forEach(child => child.render(context));
+    context.restore();
+  }
+
+  // 每帧绘制前调用，子类在此根据模型更新自身的变换
+  protected update(): void {}
+
+  // 在局部坐标系中绘制节点自身，子节点随后绘制在其上方；纯容器节点不需要实现
+  protected paintSelf?(context: CanvasRenderingContext2D): void;
+
+  // 节点自身（不含子节点）在局部坐标系中的包围盒，没有可点击的区域时返回 null
+  public getLocalBounds(): Bounds | null {
+    return null;
+  }
+
+  // 节点及其可见子节点在父节点坐标系中的包围盒
+  public getBounds(): Bounds | null {
+    if (!this.visible) return null;
+    const local = this.children.reduce<Bounds | null>(
+      (bounds, child) => unionBounds(bounds, child.getBounds()),
+      this.getLocalBounds()
+    );
+    if (!local) return null;
+    const corners = [
+      this.localToParent({ x: local.minX, y: local.minY }),
+      this.localToParent({ x: local.maxX, y: local.minY }),
+      this.localToParent({ x: local.maxX, y: local.maxY }),
+      this.localToParent({ x: local.minX, y: local.maxY })
+    ];
+    return {
+      minX: Math.min(...corners.map(corner => corner.x)),
+      minY: Math.min(...corners.map(corner => corner.y)),
+      maxX: Math.max(...corners.map(corner => corner.x)),
+      maxY: Math.max(...corners.map(corner => corner.y))
+    };
+  }
+
+  // 局部坐标中的点是否落在节点自身上，默认使用扩展 hitPadding 后的局部包围盒
+  public containsPoint(localPoint: Vector2): boolean {
+    const bounds = this.getLocalBounds();
+    if (!bounds) return false;
+    const padding = this.hitPadding;
+    return boundsContainPoint({
+      minX: bounds.minX - padding,
+      minY: bounds.minY - padding,
+      maxX: bounds.maxX + padding,
+      maxY: bounds.maxY + padding
+    }, localPoint);
+  }
+
+  // 返回父节点坐标系中 point 处最上层的可点击节点，按绘制顺序的逆序检测
+  public hitTest(point: Vector2): SceneryNode | null {
+    if (!this.visible || !this.pickable) return null;
+    const localPoint = this.parentToLocal(point);
+    const children = this.orderedChildren();
+    for (let i = children.length - 1; i >= 0; i--) {
+      const hit = children[i].hitTest(localPoint);
+      if (hit) return hit;
+    }
+    return this.containsPoint(localPoint) ? this : null;
+  }
+
+  public localToParent(point: Vector2): Vector2 {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const x = point.x * this.scale;
+    const y = point.y * this.scale;
+    return { x: this.x + x * cos - y * sin, y: this.y + x * sin + y * cos };
+  }
+
+  public parentToLocal(point: Vector2): Vector2 {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const dx = point.x - this.x;
+    const dy = point.y - this.y;
+    return { x: (dx * cos + dy * sin) / this.scale, y: (-dx * sin + dy * cos) / this.scale };
+  }
+
+  // 局部坐标到根节点坐标（即画布像素坐标）
+  public localToGlobal(point: Vector2): Vector2 {
+    const parentPoint = this.localToParent(point);
+    return this.parent ? this.parent.localToGlobal(parentPoint) : parentPoint;
+  }
+
+  public globalToLocal(point: Vector2): Vector2 {
+    const parentPoint = this.parent ? this.parent.globalToLocal(point) : point;
+    return this.parentToLocal(parentPoint);
+  }
+
+  private orderedChildren(): SceneryNode[] {
+    return this.children
+      .map((child, index) => ({ child, index }))
+      .sort((a, b) => a.child.zIndex - b.child.zIndex || a.index - b.index)
+      .map(entry => entry.child);
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  AngularVelocityArrowNode,
+  BlockVectorsNode,
+  CentripetalAccelerationArrowNode,
+  GravityArrowNode,
+  LinearVelocityArrowNode,
+  ResultantAccelerationArrowNode,
+  RotatingFrameForceNode,
+  TangentialAccelerationArrowNode,
+  TensionArrowNode
+} from './arrowNodes';
+import { BridgeNode } from './BridgeNode';
+import { EnergyChartNode, IntegratorDriftNode } from './chartNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { FreeBodyDiagramNode } from './FreeBodyDiagramNode';
+import { MeasuringTool, ProtractorNode, RulerNode, StopwatchNode } from './measuringTools';
+import { OrbitNode } from './OrbitNode';
+import { BankCrossSectionNode, RoadNode } from './roadCurveNodes';
+import { SceneryNode } from './SceneryNode';
+import {
+  LandingPredictionNode,
+  SimulationBlockNode,
+  SimulationCenterNode,
+  SimulationPlaneNode,
+  SimulationRopeNode,
+  SimulationTrajectoryNode
+} from './simulationNodes';
+import { StatusTextNode } from './StatusTextNode';
+import { StrobeImagesNode, TrajectoryPathNode } from './trajectoryNodes';
+import { TurntableNode } from './TurntableNode';
+
+// 可用键盘聚焦和操作的画布对象；页面为每个对象提供一个供屏幕阅读器和 Tab 键使用的按钮
+export enum CanvasObject {
+  BLOCK = 'block',
+  CENTER = 'center',
+  RULER = 'ruler',
+  STOPWATCH = 'stopwatch',
+  PROTRACTOR = 'protractor'
+}
+
+interface CanvasObjectProperties {
+  label: string;
+  keyHint: string;
+}
+
+export const CANVAS_OBJECTS: Record<CanvasObject, CanvasObjectProperties> = {
+  [CanvasObject.BLOCK]: { label: '物体', keyHint: '左右方向键沿圆周移动物体（需先暂停），上下方向键改变半径' },
+  [CanvasObject.CENTER]: { label: '圆心', keyHint: '方向键平移整个场景' },
+  [CanvasObject.RULER]: { label: '刻度尺', keyHint: '方向键平移，Shift + 左右方向键转动' },
+  [CanvasObject.STOPWATCH]: { label: '秒表', keyHint: '方向键平移，Enter 开始或停止计时，Delete 清零' },
+  [CanvasObject.PROTRACTOR]: { label: '量角器', keyHint: '左右方向键转动指针，按住 Shift 每次转动 10°' }
+};
+
+export const TOOL_CANVAS_OBJECTS: Record<MeasuringTool, CanvasObject> = {
+  [MeasuringTool.RULER]: CanvasObject.RULER,
+  [MeasuringTool.STOPWATCH]: CanvasObject.STOPWATCH,
+  [MeasuringTool.PROTRACTOR]: CanvasObject.PROTRACTOR
+};
+
+// 键盘焦点所在画布对象外的虚线框（PhET 的焦点高亮）
+class FocusHighlightNode extends SceneryNode {
+  public target: SceneryNode | null = null;
+  private padding: number = 4;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.pickable = false;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const bounds = this.target?.getBounds();
+    if (!bounds) return;
+    context.strokeStyle = this.model.palette.accent;
+    context.lineWidth = 2;
+    context.setLineDash([4, 3]);
+    context.strokeRect(
+      bounds.minX - this.padding,
+      bounds.minY - this.padding,
+      bounds.maxX - bounds.minX + 2 * this.padding,
+      bounds.maxY - bounds.minY + 2 * this.padding
+    );
+    context.setLineDash([]);
+  }
+}
+
+// PhET风格的根场景
+export class SimulationScene extends SceneryNode {
+  private model: CircularMotionSimulationModel;
+  private ruler: RulerNode;
+  private stopwatch: StopwatchNode;
+  private protractor: ProtractorNode;
+  private tools: Record<MeasuringTool, SceneryNode>;
+  private focusableNodes: Record<CanvasObject, SceneryNode>;
+  private focusHighlight: FocusHighlightNode;
+
+  constructor(model: CircularMotionSimulationModel) {
+    super();
+    this.model = model;
+    this.ruler = new RulerNode(model);
+    this.stopwatch = new StopwatchNode(model);
+    this.protractor = new ProtractorNode(model);
+    this.tools = {
+      [MeasuringTool.RULER]: this.ruler,
+      [MeasuringTool.STOPWATCH]: this.stopwatch,
+      [MeasuringTool.PROTRACTOR]: this.protractor
+    };
+    this.focusHighlight = new FocusHighlightNode(model);
+    this.focusableNodes = this.createNodes();
+  }
+
+  private createNodes(): Record<CanvasObject, SceneryNode> {
+    // 矢量箭头节点（按顺序绘制，确保正确的覆盖关系）
+    const vectors = new BlockVectorsNode(this.model);
+    [
+      new GravityArrowNode(this.model),                 // 紫色重力箭头（竖直平面）
+      new TensionArrowNode(this.model),                 // 蓝色拉力箭头（竖直平面）
+      new CentripetalAccelerationArrowNode(this.model), // 红色箭头
+      new TangentialAccelerationArrowNode(this.model),  // 粉色切向加速度箭头
+      new ResultantAccelerationArrowNode(this.model),   // 棕色合加速度箭头
+      new LinearVelocityArrowNode(this.model),          // 黄色箭头
+      new RotatingFrameForceNode(this.model),           // 旋转参考系中的拉力和惯性力
+      new AngularVelocityArrowNode(this.model)          // 绿色箭头，最后绘制
+    ].forEach(node => vectors.addChild(node));
+
+    const center = new SimulationCenterNode(this.model);
+    const block = new SimulationBlockNode(this.model);
+    [
+      new SimulationPlaneNode(this.model),
+      new RoadNode(this.model),
+      new TurntableNode(this.model),
+      new OrbitNode(this.model),
+      new BridgeNode(this.model),
+      new SimulationTrajectoryNode(this.model),
+      center,
+      new SimulationRopeNode(this.model),
+      new LandingPredictionNode(this.model), // 平抛预测
+      new TrajectoryPathNode(this.model), // 轨迹路径节点
+      new StrobeImagesNode(this.model), // 频闪影像
+      block,
+      vectors,
+      new BankCrossSectionNode(this.model),
+      new StatusTextNode(this.model),
+      new IntegratorDriftNode(this.model),
+      new EnergyChartNode(this.model),
+      new FreeBodyDiagramNode(this.model)
+    ].forEach(node => this.addChild(node));
+
+    // 测量工具绘制在最上层，默认隐藏
+    Object.values(this.tools).forEach(tool => {
+      tool.visible = false;
+      this.addChild(tool);
+    });
+    this.addChild(this.focusHighlight);
+
+    return {
+      [CanvasObject.BLOCK]: block,
+      [CanvasObject.CENTER]: center,
+      [CanvasObject.RULER]: this.ruler,
+      [CanvasObject.STOPWATCH]: this.stopwatch,
+      [CanvasObject.PROTRACTOR]: this.protractor
+    };
+  }
+
+  public setToolVisible(tool: MeasuringTool, visible: boolean): void {
+    this.tools[tool].visible = visible;
+  }
+
+  public setFocusedObject(object: CanvasObject | null): void {
+    this.focusHighlight.target = object === null ? null : this.focusableNodes[object];
+  }
+
+  // 键盘操作测量工具：平移刻度尺或秒表（像素），转动刻度尺或量角器的指针（rad，屏幕上顺时针为正）
+  public moveTool(tool: MeasuringTool.RULER | MeasuringTool.STOPWATCH, dx: number, dy: number): void {
+    const node = tool === MeasuringTool.RULER ? this.ruler : this.stopwatch;
+    node.dragTo({ x: dx, y: dy }, { x: 0, y: 0 });
+  }
+
+  public rotateTool(tool: MeasuringTool.RULER | MeasuringTool.PROTRACTOR, angle: number): void {
+    if (tool === MeasuringTool.RULER) {
+      this.ruler.rotation += angle;
+    } else {
+      this.protractor.armAngle += angle;
+    }
+  }
+
+  public get protractorReading(): number {
+    return this.protractor.reading;
+  }
+
+  public step(deltaTime: number): void {
+    this.model.step(deltaTime);
+  }
+}
@@ -0,0 +1,325 @@
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode } from './SceneryNode';
+import { EXPERIMENT_VARIABLES, ExperimentVariable, SimulationMode, SimulationState } from './simulationTypes';
+
+export class StatusTextNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 10;
+    this.y = 30;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.model.palette.text;
+    context.font = '14px Arial';
+
+    if (this.model.mode === SimulationMode.VERTICAL) {
+      this.renderVertical(context);
+    } else if (this.model.mode === SimulationMode.CONICAL) {
+      this.renderConical(context);
+    } else if (this.model.mode === SimulationMode.ROAD_CURVE) {
+      this.renderRoadCurve(context);
+    } else if (this.model.mode === SimulationMode.TURNTABLE) {
+      this.renderTurntable(context);
+      return;
+    } else if (this.model.mode === SimulationMode.ORBIT) {
+      this.renderOrbit(context);
+      return;
+    } else if (this.model.mode === SimulationMode.BRIDGE) {
+      this.renderBridge(context);
+      return;
+    } else if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      if (this.model.currentAngularSpeed === 0) {
+        context.fillStyle = this.model.palette.mutedText;
+        context.fillText('角速度为0，小球静止', 0, 0);
+      } else {
+        context.fillText(`向心力: ${this.model.centripetalForce.toFixed(2)} N`, 0, 0);
+        context.fillText(`线速度: ${this.model.linearVelocity.toFixed(2)} m/s`, 0, 20);
+      }
+      if (this.model.angularAcceleration !== 0) {
+        context.fillStyle = this.model.palette.quantities.tangential;
+        context.fillText(
+          `ω(t): ${this.model.currentAngularSpeed.toFixed(2)} rad/s  t: ${this.model.elapsedTime.toFixed(2)} s`,
+          0,
+          60
+        );
+      }
+      if (this.model.isRampingParameter && this.model.experimentVariable !== null) {
+        const { symbol, unit } = EXPERIMENT_VARIABLES[this.model.experimentVariable];
+        const value = this.model.experimentVariable === ExperimentVariable.RADIUS ? this.model.radius : this.model.mass;
+        context.fillStyle = this.model.palette.quantities.tangential;
+        context.fillText(`${symbol}(t): ${value.toFixed(3)} ${unit}  t: ${this.model.elapsedTime.toFixed(2)} s`, 0, 60);
+      }
+      if (this.model.hasElasticRope) {
+        context.fillStyle = this.model.palette.mutedText;
+        context.fillText(
+          `半径: ${this.model.circleRadius.toFixed(3)} m  伸长量: ${this.model.ropeExtension.toFixed(3)} m  ` +
+            `临界角速度 √(k/m): ${this.model.runawayAngularSpeed.toFixed(2)} rad/s`,
+          0,
+          80
+        );
+      }
+    } else {
+      context.fillStyle = this.model.palette.warning;
+      let brokenText = '绳子断裂！物体做匀速直线运动';
+      if (this.model.tableEnabled && this.model.hasLanded) {
+        brokenText = '物体已落地';
+      } else if (this.model.tableEnabled && !this.model.isOnTable) {
+        brokenText = '物体离开桌边，做平抛运动';
+      }
+      context.fillText(brokenText, 0, 0);
+      const prediction = this.model.landingPrediction;
+      if (prediction) {
+        context.fillStyle = this.model.palette.prediction;
+        context.fillText(
+          `飞行时间: ${prediction.flightTime.toFixed(2)} s  水平位移: ${prediction.horizontalDistance.toFixed(2)} m`,
+          0,
+          60
+        );
+        context.fillStyle = this.model.palette.warning;
+      }
+      if (this.model.breakTime !== null) {
+        context.fillText(
+          `断裂时刻: t = ${this.model.breakTime.toFixed(2)} s  ω = ${this.model.breakAngularVelocity.toFixed(2)} rad/s`,
+          0,
+          20
+        );
+      }
+      if (this.model.hasElasticRope && this.model.breakAngularVelocity >= this.model.runawayAngularSpeed) {
+        context.fillText('ω ≥ √(k/m)，弹性绳没有平衡位置，无限伸长直至断裂', 0, 80);
+      }
+      const run = this.model.lastExperimentRun;
+      if (run) {
+        const { label, symbol, unit } = EXPERIMENT_VARIABLES[run.variable];
+        context.fillStyle = this.model.palette.quantities.tangential;
+        context.fillText(`断裂实验：临界${label} ${symbol} = ${run.criticalValue.toFixed(3)} ${unit}`, 0, 120);
+      }
+    }
+
+    if (this.model.isRotatingView) {
+      this.renderRotatingFrame(context);
+    }
+
+    if (this.model.hasDrag) {
+      context.fillStyle = this.model.palette.quantities.drag;
+      context.fillText(
+        `电机功率: ${this.model.motorPower.toFixed(2)} W  阻力功率: ${this.model.dragPower.toFixed(2)} W  ` +
+          `动能: ${this.model.kineticEnergy.toFixed(2)} J`,
+        0,
+        80
+      );
+    }
+
+    // 显示轨迹信息
+    context.fillStyle = this.model.palette.trajectory;
+    context.fillText(`轨迹点数: ${this.model.trajectoryPoints.length}`, 0, 40);
+  }
+
+  // 旋转参考系中惯性力的大小（N）
+  private renderRotatingFrame(context: CanvasRenderingContext2D): void {
+    const mass = this.model.mass;
+    const centrifugal = this.model.centrifugalAcceleration;
+    const centrifugalForce = mass * Math.hypot(centrifugal.x, centrifugal.y);
+    context.fillStyle = this.model.palette.quantities.coriolis;
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      context.fillText(
+        `旋转参考系：物体静止，拉力与离心力平衡 F离 = mω²r = ${centrifugalForce.toFixed(2)} N`,
+        0,
+        100
+      );
+    } else {
+      const coriolis = this.model.coriolisAcceleration;
+      const coriolisForce = mass * Math.hypot(coriolis.x, coriolis.y);
+      context.fillText(
+        `旋转参考系：F离 = ${centrifugalForce.toFixed(2)} N  F科 = 2mωv' = ${coriolisForce.toFixed(2)} N`,
+        0,
+        100
+      );
+    }
+  }
+
+  // 拱桥：支持力与重力的比较，以及乘客的超重、失重感受
+  private renderBridge(context: CanvasRenderingContext2D): void {
+    const weight = this.model.mass * this.model.gravity;
+    const section = this.model.getRoadSection(this.model.bridgeCarPosition.x);
+    context.fillText(
+      `车速: ${this.model.carSpeed.toFixed(1)} m/s  拱桥临界速度 √(gR): ${this.model.archCriticalSpeed.toFixed(1)} m/s`,
+      0,
+      0
+    );
+
+    if (this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) {
+      context.fillStyle = this.model.palette.warning;
+      context.fillText('支持力降为零，汽车离开路面做抛体运动', 0, 20);
+      context.fillText('完全失重：乘客感觉不到座椅的支持', 0, 40);
+      return;
+    }
+
+    const normalForce = this.model.bridgeNormalForce;
+    context.fillText(
+      `${section.name}  N: ${normalForce.toFixed(0)} N  mg: ${weight.toFixed(0)} N  N - mg: ${(normalForce - weight).toFixed(0)} N`,
+      0,
+      20
+    );
+
+    const ratio = weight > 0 ? normalForce / weight : 1;
+    let feeling = '既不超重也不失重';
+    if (ratio > 1.01) {
+      context.fillStyle = this.model.palette.caution;
+      feeling = '超重：乘客感觉变重';
+    } else if (ratio < 0.99) {
+      context.fillStyle = this.model.palette.accent;
+      feeling = '失重：乘客感觉变轻';
+    }
+    context.fillText(`${feeling}（N/mg = ${ratio.toFixed(2)}）`, 0, 40);
+  }
+
+  // 天体运动：轨道类型、速度与宇宙速度的比较、理论周期和实测周期
+  private renderOrbit(context: CanvasRenderingContext2D): void {
+    const { distanceUnit, timeUnit, name } = this.model.centralBody;
+    const formatTime = (seconds: number) => `${(seconds / timeUnit.size).toFixed(2)} ${timeUnit.label}`;
+
+    if (this.model.state === SimulationState.CRASHED) {
+      context.fillStyle = this.model.palette.warning;
+      context.fillText(`速度太小，撞上${name}！`, 0, 0);
+      context.fillText(`t: ${formatTime(this.model.orbitTime)}`, 0, 20);
+      return;
+    }
+
+    context.fillText(`${this.model.orbitType}  偏心率 e = ${this.model.orbitEccentricity.toFixed(3)}`, 0, 0);
+
+    const toKilometersPerSecond = (speed: number) => (speed / 1000).toFixed(2);
+    context.fillText(
+      `v: ${toKilometersPerSecond(this.model.orbitSpeed)} km/s  ` +
+        `v₁ = √(GM/r): ${toKilometersPerSecond(this.model.circularOrbitSpeed)} km/s  ` +
+        `v₂: ${toKilometersPerSecond(this.model.escapeSpeed)} km/s`,
+      0,
+      20
+    );
+
+    const distance = this.model.orbitDistance / distanceUnit.size;
+    const period = this.model.orbitPeriod;
+    context.fillText(
+      `r: ${distance.toFixed(distanceUnit.size > 1e3 ? 2 : 0)} ${distanceUnit.label}  ` +
+        `T = 2π√(a³/GM): ${Number.isFinite(period) ? formatTime(period) : '轨道不闭合'}`,
+      0,
+      40
+    );
+
+    context.fillStyle = this.model.palette.trajectory;
+    const measured = this.model.measuredOrbitPeriod;
+    context.fillText(
+      `t: ${formatTime(this.model.orbitTime)}  实测周期: ${measured !== null ? formatTime(measured) : '—'}`,
+      0,
+      60
+    );
+  }
+
+  // 转盘：逐个物体显示所需静摩擦力与最大静摩擦力，以及滑动先后顺序
+  private renderTurntable(context: CanvasRenderingContext2D): void {
+    context.fillText(
+      `转盘角速度: ${this.model.currentAngularSpeed.toFixed(2)} rad/s  t: ${this.model.elapsedTime.toFixed(2)} s`,
+      0,
+      0
+    );
+
+    const bodies = this.model.turntableBodies;
+    context.font = '13px Arial';
+    bodies.forEach((body, index) => {
+      const lineY = 20 * (index + 1);
+      context.fillStyle = this.model.palette.turntableBodies[index % this.model.palette.turntableBodies.length];
+      const label = `物体${index + 1}`;
+      if (body.state !== SimulationState.NORMAL_CIRCULAR_MOTION && body.slipTime !== null) {
+        context.fillText(
+          `${label}: 已滑出  t = ${body.slipTime.toFixed(2)} s  ω = ${body.slipAngularVelocity.toFixed(2)} rad/s`,
+          0,
+          lineY
+        );
+        return;
+      }
+      const maxFriction = body.frictionCoefficient * body.mass * this.model.gravity;
+      const predictedTime = this.model.getPredictedSlipTime(body);
+      const predictionText = predictedTime !== null ? `  预计 t = ${predictedTime.toFixed(2)} s 滑动` : '';
+      context.fillText(
+        `${label}: ω临界 = ${this.model.getSlipAngularSpeed(body).toFixed(2)} rad/s  ` +
+          `f = ${this.model.getTurntableFriction(body).toFixed(2)} N / μmg = ${maxFriction.toFixed(2)} N${predictionText}`,
+        0,
+        lineY
+      );
+    });
+
+    if (bodies.length > 0) {
+      const order = this.model.slipOrder.map(body => `物体${bodies.indexOf(body) + 1}`).join(' → ');
+      context.fillStyle = this.model.palette.text;
+      context.fillText(`滑动顺序: ${order}`, 0, 20 * (bodies.length + 1));
+    }
+  }
+
+  private renderRoadCurve(context: CanvasRenderingContext2D): void {
+    const maxSafeSpeed = this.model.maxSafeSpeed;
+    const maxSpeedText = Number.isFinite(maxSafeSpeed) ? `${maxSafeSpeed.toFixed(1)} m/s` : '无限制';
+
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      context.fillText(`车速: ${this.model.carSpeed.toFixed(1)} m/s  最大安全速度: ${maxSpeedText}`, 0, 0);
+      context.fillText(
+        `所需静摩擦力: ${this.model.frictionForce.toFixed(0)} N  最大静摩擦力: ${this.model.maxStaticFriction.toFixed(0)} N`,
+        0,
+        20
+      );
+      if (this.model.minSafeSpeed > 0) {
+        context.fillStyle = this.model.palette.mutedText;
+        context.fillText(
+          `最小安全速度: ${this.model.minSafeSpeed.toFixed(1)} m/s，低于此速度车辆会向内侧下滑`,
+          0,
+          60
+        );
+      }
+    } else {
+      context.fillStyle = this.model.palette.warning;
+      context.fillText(this.model.skidMessage, 0, 0);
+      context.fillText(`侧滑速度: ${this.model.linearVelocity.toFixed(1)} m/s`, 0, 20);
+    }
+  }
+
+  private renderConical(context: CanvasRenderingContext2D): void {
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const coneDegrees = this.model.coneAngle * 180 / Math.PI;
+      context.fillText(`拉力: ${this.model.tension.toFixed(2)} N  锥角 θ: ${coneDegrees.toFixed(1)}°`, 0, 0);
+      if (this.model.coneAngle === 0) {
+        context.fillStyle = this.model.palette.mutedText;
+        context.fillText('ω ≤ √(g/L)，摆球竖直下垂', 0, 20);
+      } else {
+        context.fillText(
+          `半径: ${this.model.circleRadius.toFixed(2)} m  线速度: ${this.model.linearVelocity.toFixed(2)} m/s`,
+          0,
+          20
+        );
+      }
+    } else {
+      context.fillStyle = this.model.palette.warning;
+      context.fillText(
+        this.model.brokenHeight > 0 ? '绳子断裂！物体做平抛运动' : '绳子断裂！物体已落到平面上',
+        0,
+        0
+      );
+    }
+  }
+
+  private renderVertical(context: CanvasRenderingContext2D): void {
+    const speedText = `速度: ${this.model.linearVelocity.toFixed(2)} m/s  高度: ${this.model.heightAboveBottom.toFixed(2)} m`;
+
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const thetaDegrees = this.model.angleFromBottom * 180 / Math.PI;
+      context.fillText(`拉力: ${this.model.tension.toFixed(2)} N  θ: ${thetaDegrees.toFixed(0)}°`, 0, 0);
+      context.fillText(speedText, 0, 20);
+    } else if (this.model.state === SimulationState.ROPE_SLACK) {
+      context.fillStyle = this.model.palette.caution;
+      context.fillText('绳子松弛！物体做抛体运动', 0, 0);
+      context.fillText(speedText, 0, 20);
+    } else {
+      context.fillStyle = this.model.palette.warning;
+      context.fillText('绳子断裂！物体做抛体运动', 0, 0);
+      context.fillText(speedText, 0, 20);
+    }
+  }
+}
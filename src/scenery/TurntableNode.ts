@@ -0,0 +1,92 @@
+import {
+  ACCELERATION_PIXELS_PER_UNIT,
+  arrowEnd,
+  drawArrow,
+  projectArrow,
+  scaleArrowLength,
+  VELOCITY_ARROW_TIME
+} from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode } from './SceneryNode';
+import { SimulationMode, type TurntableBody } from './simulationTypes';
+
+// 转盘及盘上的物体：每个物体绘制速度（黄色）和静摩擦力（橙色，指向转轴）箭头
+export class TurntableNode extends SceneryNode {
+  private spokeCount: number = 6;
+  private rimSampleCount: number = 72;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.TURNTABLE) return;
+
+    this.renderDisc(context);
+    this.model.turntableBodies.forEach((body, index) => this.renderBody(context, body, index));
+  }
+
+  private renderDisc(context: CanvasRenderingContext2D): void {
+    const center = this.model.centerPosition;
+    const radius = this.model.turntableRadius;
+    context.fillStyle = this.model.palette.plane;
+    context.strokeStyle = this.model.palette.panelStroke;
+    context.lineWidth = 2;
+    context.beginPath();
+    for (let i = 0; i <= this.rimSampleCount; i++) {
+      const angle = i * 2 * Math.PI / this.rimSampleCount;
+      const rim = this.model.projectToScreen({ x: radius * Math.cos(angle), y: radius * Math.sin(angle), z: 0 });
+      if (i === 0) {
+        context.moveTo(rim.x, rim.y);
+      } else {
+        context.lineTo(rim.x, rim.y);
+      }
+    }
+    context.closePath();
+    context.fill();
+    context.stroke();
+
+    // 辐条随转盘转动，便于观察转速
+    context.strokeStyle = this.model.palette.grid;
+    context.lineWidth = 1;
+    for (let i = 0; i < this.spokeCount; i++) {
+      const angle = this.model.angle + i * 2 * Math.PI / this.spokeCount;
+      const rim = this.model.projectToScreen({
+        x: this.model.turntableRadius * Math.cos(angle),
+        y: this.model.turntableRadius * Math.sin(angle),
+        z: 0
+      });
+      context.beginPath();
+      context.moveTo(center.x, center.y);
+      context.lineTo(rim.x, rim.y);
+      context.stroke();
+    }
+  }
+
+  private renderBody(context: CanvasRenderingContext2D, body: TurntableBody, index: number): void {
+    const position = this.model.getTurntableBodyPosition(body);
+    const screen = this.model.projectToScreen({ ...position, z: 0 });
+    const colors = this.model.palette.turntableBodies;
+
+    context.fillStyle = colors[index % colors.length];
+    context.fillRect(screen.x - 7, screen.y - 7, 14, 14);
+    context.fillStyle = this.model.palette.background;
+    context.font = '10px Arial';
+    context.fillText(`${index + 1}`, screen.x - 3, screen.y + 4);
+
+    const velocity = this.model.getTurntableBodyVelocity(body);
+    const speed = Math.hypot(velocity.x, velocity.y);
+    if (speed > 0) {
+      const length = scaleArrowLength(this.model, speed, this.model.pixelsPerMeter * VELOCITY_ARROW_TIME, 30, 80);
+      const arrow = projectArrow(this.model, { ...velocity, z: 0 }, length);
+      drawArrow(context, screen, arrowEnd(screen, arrow), this.model.palette.quantities.velocity, 'v');
+    }
+
+    const friction = this.model.getTurntableFriction(body);
+    if (friction > 0 && body.mass > 0) {
+      const length = scaleArrowLength(this.model, friction / body.mass, ACCELERATION_PIXELS_PER_UNIT, 20, 70);
+      const arrow = projectArrow(this.model, { x: -position.x, y: -position.y, z: 0 }, length);
+      drawArrow(context, screen, arrowEnd(screen, arrow), this.model.palette.quantities.friction, `f${index + 1}`);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { Camera } from './Camera';
+import { BlockNode, CenterNode, PlaneNode, RopeNode, TrajectoryNode, type CircularMotionView } from './circularMotionNodes';
+import { SceneryNode, type Vector2, type Vector3 } from './SceneryNode';
+import { LIGHT_PALETTE, type SceneryPalette } from './theme';
+
+// 首页演示用的匀速圆周运动模型：斜视图下绳子拉着方块在水平面内转动
+export class UniformCircularMotionModel implements CircularMotionView {
+  public angle: number = 0;
+  public angularVelocity: number = 3; // rad/s
+  public radius: number = 0.7; // m
+  public pixelsPerMeter: number = 100;
+  public centerPosition: Vector2 = { x: 300, y: 220 };
+  public camera: Camera = new Camera();
+  public palette: SceneryPalette = LIGHT_PALETTE;
+
+  public step(deltaTime: number): void {
+    this.angle = (this.angle + this.angularVelocity * deltaTime) % (2 * Math.PI);
+  }
+
+  public projectToScreen(point: Vector3): Vector2 {
+    const offset = this.camera.projectVector(point);
+    const scale = this.pixelsPerMeter * this.camera.zoom;
+    return { x: this.centerPosition.x + offset.x * scale, y: this.centerPosition.y + offset.y * scale };
+  }
+
+  public projectToView(point: Vector3): Vector2 {
+    return this.projectToScreen(point);
+  }
+
+  public getCirclePoint(angle: number): Vector3 {
+    return { x: this.radius * Math.cos(angle), y: this.radius * Math.sin(angle), z: 0 };
+  }
+
+  public getBlockWorldPosition(): Vector3 {
+    return this.getCirclePoint(this.angle);
+  }
+
+  public getRopeAnchor(): Vector2 {
+    return this.centerPosition;
+  }
+}
+
+// 向心力箭头：从方块沿绳指向圆心，节点原点随方块移动
+class CentripetalForceArrowNode extends SceneryNode {
+  private arrowLength: number = 30;
+
+  constructor(private model: UniformCircularMotionModel) {
+    super();
+  }
+
+  protected update(): void {
+    const blockPos = this.model.projectToView(this.model.getBlockWorldPosition());
+    this.x = blockPos.x;
+    this.y = blockPos.y;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const toCenter = this.parentToLocal(this.model.getRopeAnchor());
+    const distance = Math.hypot(toCenter.x, toCenter.y);
+    if (distance === 0) return;
+
+    // 箭头方向与绳子完全一致
+    const angle = Math.atan2(toCenter.y, toCenter.x);
+    const endX = this.arrowLength * Math.cos(angle);
+    const endY = this.arrowLength * Math.sin(angle);
+
+    const color = this.model.palette.quantities.centripetal;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = 3;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(endX, endY);
+    context.stroke();
+
+    const headLength = 8;
+    const headAngle = Math.PI / 6;
+    context.beginPath();
+    context.moveTo(endX, endY);
+    context.lineTo(endX - headLength * Math.cos(angle - headAngle), endY - headLength * Math.sin(angle - headAngle));
+    context.lineTo(endX - headLength * Math.cos(angle + headAngle), endY - headLength * Math.sin(angle + headAngle));
+    context.closePath();
+    context.fill();
+
+    context.font = '12px Arial';
+    context.fillText('F', endX + 10 * Math.cos(angle) - 5, endY + 10 * Math.sin(angle) - 5);
+  }
+}
+
+// 首页演示场景的根节点
+export class UniformCircularMotionScene extends SceneryNode {
+  private forceArrow: CentripetalForceArrowNode;
+
+  constructor(private model: UniformCircularMotionModel) {
+    super();
+    this.forceArrow = new CentripetalForceArrowNode(model);
+    this.forceArrow.visible = false;
+    [
+      new PlaneNode(model),
+      new TrajectoryNode(model),
+      new CenterNode(model),
+      new RopeNode(model),
+      new BlockNode(model),
+      this.forceArrow
+    ].forEach(node => this.addChild(node));
+  }
+
+  public step(deltaTime: number): void {
+    this.model.step(deltaTime);
+  }
+
+  public setForceAnalysisVisible(visible: boolean): void {
+    this.forceArrow.visible = visible;
+  }
+}
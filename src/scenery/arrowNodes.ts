@@ -0,0 +1,466 @@
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Vector2, type Vector3 } from './SceneryNode';
+import { RotationDirection, SimulationMode, SimulationState } from './simulationTypes';
+
+// 绘制带标签的实心箭头，供力矢量节点共用
+export const drawArrow = (
+  context: CanvasRenderingContext2D,
+  from: Vector2,
+  to: Vector2,
+  color: string,
+  label: string,
+  dashed: boolean = false // 虚线用于表示力的分量
+): void => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = 10;
+  const headAngle = Math.PI / 6;
+
+  context.strokeStyle = color;
+  context.fillStyle = color;
+  context.lineWidth = dashed ? 2 : 3;
+  context.setLineDash(dashed ? [4, 3] : []);
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+  context.setLineDash([]);
+
+  context.beginPath();
+  context.moveTo(to.x, to.y);
+  context.lineTo(to.x - headLength * Math.cos(angle - headAngle), to.y - headLength * Math.sin(angle - headAngle));
+  context.lineTo(to.x - headLength * Math.cos(angle + headAngle), to.y - headLength * Math.sin(angle + headAngle));
+  context.closePath();
+  context.fill();
+
+  context.font = '12px Arial';
+  context.fillText(label, to.x + 12 * Math.cos(angle) - 5, to.y + 12 * Math.sin(angle) + 4);
+};
+
+// 箭头的屏幕方向（rad）和长度（像素）
+interface ArrowGeometry {
+  angle: number;
+  length: number;
+}
+
+// 世界坐标中沿 direction、长度为 length（像素）的矢量经相机投影后的屏幕方向和长度：沿视线的分量被压缩
+export const projectArrow = (model: CircularMotionSimulationModel, direction: Vector3, length: number): ArrowGeometry => {
+  const magnitude = Math.hypot(direction.x, direction.y, direction.z);
+  if (magnitude === 0) return { angle: 0, length: 0 };
+  const projected = model.projectDirection({
+    x: direction.x / magnitude,
+    y: direction.y / magnitude,
+    z: direction.z / magnitude
+  });
+  return { angle: Math.atan2(projected.y, projected.x), length: length * Math.hypot(projected.x, projected.y) };
+};
+
+// 随物体移动的矢量节点以物体所在位置为局部原点
+const ORIGIN: Vector2 = { x: 0, y: 0 };
+
+// 按 ArrowGeometry 求箭头终点
+export const arrowEnd = (from: Vector2, arrow: ArrowGeometry): Vector2 => ({
+  x: from.x + arrow.length * Math.cos(arrow.angle),
+  y: from.y + arrow.length * Math.sin(arrow.angle)
+});
+
+// 矢量箭头的长度（像素）：默认限制在 [minLength, maxLength] 内便于观察方向，开启真实比例后与大小严格成正比
+export const scaleArrowLength = (
+  model: CircularMotionSimulationModel,
+  magnitude: number,
+  pixelsPerUnit: number,
+  minLength: number,
+  maxLength: number
+): number => {
+  const length = magnitude * pixelsPerUnit;
+  return model.realisticArrowScaling ? length : Math.max(minLength, Math.min(length, maxLength));
+};
+
+export const VELOCITY_ARROW_TIME = 0.5; // s，速度箭头的长度为物体 0.5 s 内的位移（按场景比例尺）
+
+// 旋转参考系中的受力：绳子未断时拉力与惯性离心力平衡，物体静止；断裂后物体受离心力和科里奥利力（虚线为惯性力）
+export class RotatingFrameForceNode extends SceneryNode {
+  private maxArrowLength: number = 70;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.isRotatingView) return;
+
+    const centrifugal = this.model.centrifugalAcceleration;
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      this.renderVector(context, { x: -centrifugal.x, y: -centrifugal.y }, ACCELERATION_PIXELS_PER_UNIT, this.model.palette.quantities.tension, 'T');
+      this.renderVector(context, centrifugal, ACCELERATION_PIXELS_PER_UNIT, this.model.palette.quantities.centripetal, 'F离', true);
+      return;
+    }
+
+    this.renderVector(context, this.model.relativeVelocity, this.model.pixelsPerMeter * VELOCITY_ARROW_TIME, this.model.palette.quantities.velocity, "v'");
+    this.renderVector(context, centrifugal, ACCELERATION_PIXELS_PER_UNIT, this.model.palette.quantities.centripetal, 'F离', true);
+    this.renderVector(context, this.model.coriolisAcceleration, ACCELERATION_PIXELS_PER_UNIT, this.model.palette.quantities.coriolis, 'F科', true);
+  }
+
+  // 世界坐标下的矢量经相机投影到屏幕上，长度按比例并限制在最大长度以内
+  private renderVector(
+    context: CanvasRenderingContext2D,
+    vector: Vector2,
+    pixelsPerUnit: number,
+    color: string,
+    label: string,
+    dashed: boolean = false
+  ): void {
+    const magnitude = Math.hypot(vector.x, vector.y);
+    const length = scaleArrowLength(this.model, magnitude, pixelsPerUnit, 0, this.maxArrowLength);
+    if (length < 3) return;
+    const arrow = projectArrow(this.model, { ...vector, z: 0 }, length);
+    drawArrow(context, ORIGIN, arrowEnd(ORIGIN, arrow), color, label, dashed);
+  }
+}
+
+// 角速度箭头（绿色）- 垂直圆周平面方向
+export class AngularVelocityArrowNode extends SceneryNode {
+  private arrowLength: number = 50;
+  private minProjectedLength: number = 15;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.usesBlockNodes || this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+    if (this.model.currentAngularSpeed === 0 || this.model.isRotatingView) return;
+
+    // 角速度沿转轴：水平面内顺时针向下、逆时针向上；竖直平面内 ω > 0 指向屏幕内（-y 方向）
+    const axis: Vector3 = this.model.mode === SimulationMode.VERTICAL
+      ? { x: 0, y: this.model.angularRate > 0 ? -1 : 1, z: 0 }
+      : { x: 0, y: 0, z: this.model.rotationDirection === RotationDirection.CLOCKWISE ? -1 : 1 };
+    if (this.model.mode === SimulationMode.VERTICAL && this.model.angularRate === 0) return;
+
+    const arrow = projectArrow(this.model, axis, this.arrowLength);
+    // 转轴几乎正对视线时，箭头投影过短，改用 ⊙/⊗ 符号表示
+    if (arrow.length < this.minProjectedLength) {
+      this.renderPerpendicular(context, this.model.camera.depthOf(axis) > 0);
+      return;
+    }
+
+    const endX = arrow.length * Math.cos(arrow.angle);
+    const endY = arrow.length * Math.sin(arrow.angle);
+
+    // 绘制箭头线
+    context.strokeStyle = this.model.palette.quantities.angularVelocity;
+    context.lineWidth = 4; // 增加线宽
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(endX, endY);
+    context.stroke();
+
+    // 绘制箭头头部
+    const headLength = 12; // 增加头部大小
+    const headAngle = Math.PI / 6;
+
+    context.beginPath();
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(arrow.angle - headAngle),
+      endY - headLength * Math.sin(arrow.angle - headAngle)
+    );
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(arrow.angle + headAngle),
+      endY - headLength * Math.sin(arrow.angle + headAngle)
+    );
+    context.stroke();
+
+    // 添加标签
+    context.fillStyle = this.model.palette.quantities.angularVelocity;
+    context.font = 'bold 14px Arial'; // 增加字体大小和粗细
+    context.fillText('ω', 18, -8);
+  }
+
+  // 角速度垂直于屏幕：指向屏幕外为 ⊙，指向屏幕内为 ⊗
+  private renderPerpendicular(context: CanvasRenderingContext2D, towardViewer: boolean): void {
+    const symbolX = 24;
+    const symbolY = -20;
+    const symbolRadius = 8;
+
+    context.strokeStyle = this.model.palette.quantities.angularVelocity;
+    context.fillStyle = this.model.palette.quantities.angularVelocity;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.arc(symbolX, symbolY, symbolRadius, 0, 2 * Math.PI);
+    context.stroke();
+
+    if (!towardViewer) {
+      const offset = symbolRadius * Math.SQRT1_2;
+      context.beginPath();
+      context.moveTo(symbolX - offset, symbolY - offset);
+      context.lineTo(symbolX + offset, symbolY + offset);
+      context.moveTo(symbolX + offset, symbolY - offset);
+      context.lineTo(symbolX - offset, symbolY + offset);
+      context.stroke();
+    } else {
+      context.beginPath();
+      context.arc(symbolX, symbolY, 2, 0, 2 * Math.PI);
+      context.fill();
+    }
+
+    context.font = 'bold 14px Arial';
+    context.fillText('ω', symbolX + 12, symbolY + 5);
+  }
+}
+
+// 线速度箭头（黄色）- 圆周切线方向
+export class LinearVelocityArrowNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.usesBlockNodes || this.model.isRotatingView) return;
+    if (this.model.currentAngularSpeed === 0 && this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) return;
+
+    let direction: Vector2;
+
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      // 圆周运动：切线方向，根据旋转方向调整（竖直平面内由瞬时角速度的方向决定）
+      const directionMultiplier = this.model.mode === SimulationMode.VERTICAL
+        ? (this.model.angularRate >= 0 ? 1 : -1)
+        : this.model.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
+      const planeAngle = this.model.angle + (Math.PI / 2) * directionMultiplier;
+      direction = { x: Math.cos(planeAngle), y: Math.sin(planeAngle) };
+    } else {
+      // 绳子松弛或断裂：沿当前速度方向
+      direction = this.model.brokenVelocity;
+    }
+    // 默认限制在 30～80 像素（投影前）
+    const arrow = projectArrow(
+      this.model,
+      this.model.planeToWorld(direction),
+      scaleArrowLength(this.model, this.model.linearVelocity, this.model.pixelsPerMeter * VELOCITY_ARROW_TIME, 30, 80)
+    );
+    if (arrow.length < 1) return;
+    const tangentAngle = arrow.angle;
+    const velocityMagnitude = arrow.length;
+
+    const endX = velocityMagnitude * Math.cos(tangentAngle);
+    const endY = velocityMagnitude * Math.sin(tangentAngle);
+
+    // 绘制箭头线
+    context.strokeStyle = this.model.palette.quantities.velocity;
+    context.lineWidth = 3;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(endX, endY);
+    context.stroke();
+
+    // 绘制箭头头部
+    const headLength = 10;
+    const headAngle = Math.PI / 6;
+
+    context.beginPath();
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(tangentAngle - headAngle),
+      endY - headLength * Math.sin(tangentAngle - headAngle)
+    );
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(tangentAngle + headAngle),
+      endY - headLength * Math.sin(tangentAngle + headAngle)
+    );
+    context.stroke();
+
+    // 添加标签
+    context.fillStyle = this.model.palette.quantities.velocity;
+    context.font = '12px Arial';
+    const labelX = (velocityMagnitude + 20) * Math.cos(tangentAngle);
+    const labelY = (velocityMagnitude + 20) * Math.sin(tangentAngle);
+    context.fillText('v', labelX - 5, labelY - 5);
+  }
+}
+
+export const ACCELERATION_PIXELS_PER_UNIT = 20; // 1 m/s² = 20像素
+
+// 向心加速度在圆周平面内指向圆心，箭头长度默认限制在 30～70 像素（投影前）
+const getCentripetalArrow = (model: CircularMotionSimulationModel): ArrowGeometry => {
+  const length = scaleArrowLength(model, model.centripetalAcceleration, ACCELERATION_PIXELS_PER_UNIT, 30, 70);
+  return projectArrow(model, model.radialDirection, length);
+};
+
+// 切向加速度沿速度方向（加速）或反方向（减速）
+const getTangentialArrow = (model: CircularMotionSimulationModel): ArrowGeometry => {
+  const directionMultiplier = model.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
+  const tangentialAcceleration = model.tangentialAcceleration;
+  const angle = model.angle + (Math.PI / 2) * directionMultiplier + (tangentialAcceleration < 0 ? Math.PI : 0);
+  const length = scaleArrowLength(model, Math.abs(tangentialAcceleration), ACCELERATION_PIXELS_PER_UNIT, 0, 70);
+  return projectArrow(model, model.planeToWorld({ x: Math.cos(angle), y: Math.sin(angle) }), length);
+};
+
+// 向心加速度箭头（红色）- 指向圆心
+export class CentripetalAccelerationArrowNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.usesBlockNodes || this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION) return;
+    if (this.model.currentAngularSpeed === 0 || this.model.isRotatingView) return;
+
+    // 向心加速度方向：指向圆心
+    const { angle: angleToCenter, length: accelerationMagnitude } = getCentripetalArrow(this.model);
+
+    const endX = accelerationMagnitude * Math.cos(angleToCenter);
+    const endY = accelerationMagnitude * Math.sin(angleToCenter);
+
+    // 绘制箭头线
+    context.strokeStyle = this.model.palette.quantities.centripetal;
+    context.lineWidth = 3;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(endX, endY);
+    context.stroke();
+
+    // 绘制箭头头部
+    const headLength = 10;
+    const headAngle = Math.PI / 6;
+
+    context.beginPath();
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(angleToCenter - headAngle),
+      endY - headLength * Math.sin(angleToCenter - headAngle)
+    );
+    context.moveTo(endX, endY);
+    context.lineTo(
+      endX - headLength * Math.cos(angleToCenter + headAngle),
+      endY - headLength * Math.sin(angleToCenter + headAngle)
+    );
+    context.stroke();
+
+    // 添加标签
+    context.fillStyle = this.model.palette.quantities.centripetal;
+    context.font = '12px Arial';
+    const labelX = (accelerationMagnitude + 20) * Math.cos(angleToCenter);
+    const labelY = (accelerationMagnitude + 20) * Math.sin(angleToCenter);
+    context.fillText('a', labelX - 5, labelY - 5);
+  }
+}
+
+// 切向加速度箭头（粉色）- 沿切线，仅在角加速度不为零时显示
+export class TangentialAccelerationArrowNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.tangentialAcceleration === 0 || this.model.isRotatingView) return;
+
+    const arrow = getTangentialArrow(this.model);
+    if (arrow.length < 1) return;
+    drawArrow(context, ORIGIN, arrowEnd(ORIGIN, arrow), this.model.palette.quantities.tangential, 'aₜ');
+  }
+}
+
+// 合加速度箭头（棕色）- 向心加速度与切向加速度的矢量和
+export class ResultantAccelerationArrowNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.tangentialAcceleration === 0 || this.model.isRotatingView) return;
+
+    const end = arrowEnd(ORIGIN, getTangentialArrow(this.model));
+    if (this.model.currentAngularSpeed > 0) {
+      const centripetal = getCentripetalArrow(this.model);
+      end.x += centripetal.length * Math.cos(centripetal.angle);
+      end.y += centripetal.length * Math.sin(centripetal.angle);
+    }
+    drawArrow(context, ORIGIN, end, this.model.palette.quantities.resultant, 'a合');
+  }
+}
+
+// 重力箭头（紫色）- 竖直向下，竖直平面和圆锥摆模式显示
+export class GravityArrowNode extends SceneryNode {
+  private arrowLength: number = 40; // mg 对应的箭头长度（像素）
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.isRopeInGravity) return;
+
+    const arrow = projectArrow(this.model, { x: 0, y: 0, z: -1 }, this.arrowLength);
+    if (arrow.length < 1) return;
+    drawArrow(context, ORIGIN, arrowEnd(ORIGIN, arrow), this.model.palette.quantities.gravity, 'mg');
+  }
+}
+
+// 拉力箭头（蓝色）- 沿绳指向固定端，长度以 mg 为单位，便于比较拉力随位置的变化；
+// 圆锥摆同时用虚线画出拉力的竖直分量 Tcosθ 和水平分量 Tsinθ
+export class TensionArrowNode extends SceneryNode {
+  private lengthPerWeight: number = 40; // 与 GravityArrowNode 的 mg 箭头长度一致
+  private maxLength: number = 120;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.isRopeInGravity) return;
+    if (this.model.state !== SimulationState.NORMAL_CIRCULAR_MOTION || this.model.mass === 0) return;
+
+    const weight = this.model.mass * this.model.gravity;
+    const length = scaleArrowLength(this.model, this.model.tension / weight, this.lengthPerWeight, 0, this.maxLength);
+    if (length < 1) return;
+
+    if (this.model.mode === SimulationMode.CONICAL) {
+      this.renderConical(context, length);
+      return;
+    }
+
+    const anchor = this.model.ropeAnchorWorld;
+    const block = this.model.getBlockWorldPosition();
+    const arrow = projectArrow(
+      this.model,
+      { x: anchor.x - block.x, y: anchor.y - block.y, z: anchor.z - block.z },
+      length
+    );
+    drawArrow(context, ORIGIN, arrowEnd(ORIGIN, arrow), this.model.palette.quantities.tension, 'T');
+  }
+
+  private renderConical(context: CanvasRenderingContext2D, length: number): void {
+    const coneAngle = this.model.coneAngle;
+
+    // 竖直分量向上，水平分量在轨道平面内指向圆心，两者的投影相加即为拉力的投影
+    const vertical = projectArrow(this.model, { x: 0, y: 0, z: 1 }, length * Math.cos(coneAngle));
+    const horizontal = projectArrow(
+      this.model,
+      this.model.planeToWorld({ x: -Math.cos(this.model.angle), y: -Math.sin(this.model.angle) }),
+      length * Math.sin(coneAngle)
+    );
+    const verticalEnd = arrowEnd(ORIGIN, vertical);
+    const horizontalEnd = arrowEnd(ORIGIN, horizontal);
+    const tensionEnd = { x: horizontalEnd.x + verticalEnd.x, y: horizontalEnd.y + verticalEnd.y };
+
+    if (coneAngle > 0) {
+      drawArrow(context, ORIGIN, verticalEnd, this.model.palette.quantities.tension, 'Tcosθ', true);
+      drawArrow(context, ORIGIN, horizontalEnd, this.model.palette.quantities.tension, 'Tsinθ', true);
+    }
+    drawArrow(context, ORIGIN, tensionEnd, this.model.palette.quantities.tension, 'T');
+  }
+}
+
+// 受力与运动矢量层：原点随物体移动，子节点以物体为起点绘制各矢量箭头
+export class BlockVectorsNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected update(): void {
+    const blockPos = this.model.projectToView(this.model.getBlockWorldPosition());
+    this.x = blockPos.x;
+    this.y = blockPos.y;
+  }
+}
@@ -0,0 +1,281 @@
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { INTEGRATOR_LABELS } from './integrators';
+import { SceneryNode } from './SceneryNode';
+import { GRAPH_SERIES, GraphSeries, SimulationMode, type EnergySample, type MotionSample } from './simulationTypes';
+
+// 数值积分误差读数：比较不同积分方法的能量与半径漂移（水平面和竖直平面模式）
+export class IntegratorDriftNode extends SceneryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 10;
+    this.y = 388;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.HORIZONTAL && this.model.mode !== SimulationMode.VERTICAL) return;
+
+    const formatDrift = (drift: number) => `${drift >= 0 ? '+' : ''}${(drift * 100).toFixed(4)}%`;
+    const energyLabel = this.model.mode === SimulationMode.VERTICAL ? '机械能' : '动能';
+    let text = `${INTEGRATOR_LABELS[this.model.integrator]}  ${energyLabel}偏差: ${formatDrift(this.model.energyDrift)}`;
+    if (this.model.mode === SimulationMode.HORIZONTAL) {
+      text += `  半径偏差: ${formatDrift(this.model.radiusDrift)}`;
+    }
+
+    context.fillStyle = this.model.palette.mutedText;
+    context.font = '12px Arial';
+    context.fillText(text, 0, 0);
+  }
+}
+
+// 能量曲线（右上角）：动能、电机累计做功和阻力累计耗散随时间的变化，最近 10 s
+export class EnergyChartNode extends SceneryNode {
+  private width: number = 170;
+  private height: number = 90;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 420;
+    this.y = 12;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.hasDrag) return;
+
+    context.fillStyle = this.model.palette.panel;
+    context.fillRect(0, 0, this.width, this.height);
+    context.strokeStyle = this.model.palette.panelStroke;
+    context.lineWidth = 1;
+    context.strokeRect(0, 0, this.width, this.height);
+
+    const { kineticEnergy, work, heat } = this.model.palette.quantities;
+    const legend: [string, string][] = [['Eₖ', kineticEnergy], ['W电机', work], ['Q阻力', heat]];
+    context.font = '11px Arial';
+    legend.forEach(([label, color], index) => {
+      context.fillStyle = color;
+      context.fillText(label, 6 + index * 50, 13);
+    });
+
+    const samples = this.model.energyHistory;
+    if (samples.length < 2) return;
+
+    // 纵轴包含 0，按可见数据的最大最小值缩放
+    let minValue = 0;
+    let maxValue = 0;
+    samples.forEach(sample => {
+      minValue = Math.min(minValue, sample.kineticEnergy, sample.motorWork, sample.dragHeat);
+      maxValue = Math.max(maxValue, sample.kineticEnergy, sample.motorWork, sample.dragHeat);
+    });
+    if (maxValue - minValue < 1e-9) maxValue = minValue + 1;
+
+    const plotTop = 20;
+    const plotHeight = this.height - 26;
+    const startTime = samples[0].time;
+    const timeSpan = Math.max(samples[samples.length - 1].time - startTime, 1e-9);
+    const toX = (time: number) => 6 + (time - startTime) / timeSpan * (this.width - 12);
+    const toY = (value: number) => plotTop + (maxValue - value) / (maxValue - minValue) * plotHeight;
+
+    context.strokeStyle = this.model.palette.grid;
+    context.beginPath();
+    context.moveTo(6, toY(0));
+    context.lineTo(this.width - 6, toY(0));
+    context.stroke();
+
+    const series: [keyof Omit<EnergySample, 'time'>, string][] = [
+      ['kineticEnergy', kineticEnergy],
+      ['motorWork', work],
+      ['dragHeat', heat]
+    ];
+    context.lineWidth = 1.5;
+    series.forEach(([key, color]) => {
+      context.strokeStyle = color;
+      context.beginPath();
+      samples.forEach((sample, index) => {
+        const px = toX(sample.time);
+        const py = toY(sample[key]);
+        if (index === 0) {
+          context.moveTo(px, py);
+        } else {
+          context.lineTo(px, py);
+        }
+      });
+      context.stroke();
+    });
+  }
+}
+
+// 运动图像（画布下方）：所选物理量各占一条，共用时间轴；暂停后用光标读取同一时刻的各个数值
+export const GRAPH_WIDTH = 600;
+
+export const GRAPH_STRIP_HEIGHT = 70;
+
+export const GRAPH_AXIS_HEIGHT = 20;
+
+export const GRAPH_TIME_WINDOWS = [5, 10, 20, 30]; // s，时间轴的缩放
+
+export class MotionGraphNode extends SceneryNode {
+  public series: GraphSeries[] = [];
+  public timeWindow: number = 10; // s
+  public cursorTime: number | null = null; // 暂停时光标所在的时刻（s）
+  private plotLeft: number = 70;
+  private plotRight: number = GRAPH_WIDTH - 10;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const samples = this.visibleSamples;
+    this.series.forEach((series, index) => this.renderStrip(context, series, index * GRAPH_STRIP_HEIGHT, samples));
+    this.renderTimeAxis(context);
+    this.renderCursor(context);
+  }
+
+  // 时间轴的终点：采样时间不足一个窗口时从 0 开始
+  private get endTime(): number {
+    const samples = this.model.motionHistory;
+    return Math.max(samples.length > 0 ? samples[samples.length - 1].time : 0, this.timeWindow);
+  }
+
+  private get visibleSamples(): MotionSample[] {
+    const startTime = this.endTime - this.timeWindow;
+    return this.model.motionHistory.filter(sample => sample.time >= startTime);
+  }
+
+  private timeToX(time: number): number {
+    const startTime = this.endTime - this.timeWindow;
+    return this.plotLeft + (time - startTime) / this.timeWindow * (this.plotRight - this.plotLeft);
+  }
+
+  // 按画布横坐标移动光标，限制在已记录的时间范围内
+  public moveCursorTo(x: number): void {
+    const samples = this.visibleSamples;
+    if (this.cursorTime === null || samples.length === 0) return;
+    const time = this.endTime - this.timeWindow + (x - this.plotLeft) / (this.plotRight - this.plotLeft) * this.timeWindow;
+    this.cursorTime = Math.min(Math.max(time, samples[0].time), samples[samples.length - 1].time);
+  }
+
+  // 光标处的采样点（二分查找最接近的时刻）
+  private get cursorSample(): MotionSample | null {
+    const samples = this.model.motionHistory;
+    if (this.cursorTime === null || samples.length === 0) return null;
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (samples[middle].time < this.cursorTime) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    if (low > 0 && this.cursorTime - samples[low - 1].time < samples[low].time - this.cursorTime) low--;
+    return samples[low];
+  }
+
+  private renderStrip(context: CanvasRenderingContext2D, series: GraphSeries, top: number, samples: MotionSample[]): void {
+    const { label, unit, quantity, field } = GRAPH_SERIES[series];
+    const color = this.model.palette.quantities[quantity];
+    const plotTop = top + 6;
+    const plotBottom = top + GRAPH_STRIP_HEIGHT - 6;
+
+    context.strokeStyle = this.model.palette.grid;
+    context.lineWidth = 1;
+    context.strokeRect(this.plotLeft, plotTop, this.plotRight - this.plotLeft, plotBottom - plotTop);
+    context.fillStyle = color;
+    context.font = '12px Arial';
+    context.textAlign = 'left';
+    context.fillText(`${label} (${unit})`, 6, top + 20);
+
+    // 纵轴包含 0，按可见数据的最大最小值缩放并留出边距
+    let minValue = 0;
+    let maxValue = 0;
+    samples.forEach(sample => {
+      minValue = Math.min(minValue, sample[field]);
+      maxValue = Math.max(maxValue, sample[field]);
+    });
+    if (maxValue - minValue < 1e-9) maxValue = minValue + 1;
+    const margin = (maxValue - minValue) * 0.1;
+    minValue -= minValue < 0 ? margin : 0;
+    maxValue += margin;
+    const valueToY = (value: number) => plotBottom - (value - minValue) / (maxValue - minValue) * (plotBottom - plotTop);
+
+    context.fillStyle = this.model.palette.mutedText;
+    context.font = '10px Arial';
+    context.textAlign = 'right';
+    context.fillText(maxValue.toPrecision(3), this.plotLeft - 4, plotTop + 8);
+    context.fillText(minValue.toPrecision(3), this.plotLeft - 4, plotBottom);
+    context.textAlign = 'left';
+
+    if (minValue < 0) {
+      context.strokeStyle = this.model.palette.panelStroke;
+      context.setLineDash([3, 3]);
+      context.beginPath();
+      context.moveTo(this.plotLeft, valueToY(0));
+      context.lineTo(this.plotRight, valueToY(0));
+      context.stroke();
+      context.setLineDash([]);
+    }
+
+    if (samples.length >= 2) {
+      context.strokeStyle = color;
+      context.lineWidth = 1.5;
+      context.beginPath();
+      samples.forEach((sample, index) => {
+        const x = this.timeToX(sample.time);
+        const y = valueToY(sample[field]);
+        if (index === 0) {
+          context.moveTo(x, y);
+        } else {
+          context.lineTo(x, y);
+        }
+      });
+      context.stroke();
+    }
+
+    const cursorSample = this.cursorSample;
+    if (cursorSample) {
+      context.fillStyle = color;
+      context.font = '12px Arial';
+      context.textAlign = 'right';
+      context.fillText(`${cursorSample[field].toFixed(3)} ${unit}`, this.plotRight - 4, plotTop + 14);
+      context.textAlign = 'left';
+      context.beginPath();
+      context.arc(this.timeToX(cursorSample.time), valueToY(cursorSample[field]), 3, 0, 2 * Math.PI);
+      context.fill();
+    }
+  }
+
+  // 时间轴刻度：1、2 或 5 s 一格
+  private renderTimeAxis(context: CanvasRenderingContext2D): void {
+    const axisY = this.series.length * GRAPH_STRIP_HEIGHT;
+    const tickStep = this.timeWindow <= 5 ? 1 : this.timeWindow <= 10 ? 2 : 5;
+    const startTime = this.endTime - this.timeWindow;
+    context.fillStyle = this.model.palette.mutedText;
+    context.font = '10px Arial';
+    context.textAlign = 'center';
+    for (let time = Math.ceil(startTime / tickStep) * tickStep; time <= this.endTime + 1e-9; time += tickStep) {
+      context.fillText(`${time}`, this.timeToX(time), axisY + 12);
+    }
+    context.textAlign = 'left';
+    context.fillText('t (s)', 6, axisY + 12);
+  }
+
+  private renderCursor(context: CanvasRenderingContext2D): void {
+    const cursorSample = this.cursorSample;
+    if (!cursorSample || this.series.length === 0) return;
+    const x = this.timeToX(cursorSample.time);
+    const axisY = this.series.length * GRAPH_STRIP_HEIGHT;
+    context.strokeStyle = this.model.palette.text;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, axisY);
+    context.stroke();
+
+    context.fillStyle = this.model.palette.text;
+    context.font = 'bold 11px Arial';
+    context.textAlign = 'center';
+    context.fillText(`t = ${cursorSample.time.toFixed(2)} s`, x, axisY + GRAPH_AXIS_HEIGHT - 1);
+    context.textAlign = 'left';
+  }
+}
@@ -0,0 +1,143 @@
+import { SceneryNode, type Bounds, type Vector2, type Vector3 } from './SceneryNode';
+import type { SceneryPalette } from './theme';
+
+// 圆周运动场景的基本节点所需的模型接口，世界坐标以米为单位、z 向上，屏幕坐标以像素为单位
+export interface CircularMotionView {
+  centerPosition: Vector2; // 世界坐标原点的屏幕坐标
+  pixelsPerMeter: number;
+  palette: SceneryPalette;
+  projectToScreen(point: Vector3): Vector2;
+  // 按观察参考系投影；在地面参考系中与 projectToScreen 相同
+  projectToView(point: Vector3): Vector2;
+  getBlockWorldPosition(): Vector3;
+  getRopeAnchor(): Vector2;
+  // 圆周轨道上极角为 angle 的点
+  getCirclePoint(angle: number): Vector3;
+}
+
+// 水平面：以圆心为中心的正方形，边长按比例尺换算为约 500 像素
+export class PlaneNode extends SceneryNode {
+  private planeHalfSizePixels: number = 250;
+
+  constructor(protected view: CircularMotionView) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const halfSize = this.planeHalfSizePixels / this.view.pixelsPerMeter;
+    this.fillPolygon(context, [
+      { x: -halfSize, y: -halfSize, z: 0 },
+      { x: halfSize, y: -halfSize, z: 0 },
+      { x: halfSize, y: halfSize, z: 0 },
+      { x: -halfSize, y: halfSize, z: 0 }
+    ], this.view.palette.plane, this.view.palette.planeStroke);
+  }
+
+  protected fillPolygon(context: CanvasRenderingContext2D, corners: Vector3[], fill: string, stroke: string): void {
+    const points = corners.map(corner => this.view.projectToView(corner));
+    context.fillStyle = fill;
+    context.beginPath();
+    context.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => context.lineTo(point.x, point.y));
+    context.closePath();
+    context.fill();
+    context.strokeStyle = stroke;
+    context.lineWidth = 1;
+    context.stroke();
+  }
+}
+
+// 圆形轨迹（虚线）：在圆周平面内取点后经相机投影
+export class TrajectoryNode extends SceneryNode {
+  private sampleCount: number = 72;
+
+  constructor(protected view: CircularMotionView) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.strokeStyle = this.view.palette.block;
+    context.lineWidth = 1;
+    context.setLineDash([5, 5]);
+    context.beginPath();
+    for (let i = 0; i <= this.sampleCount; i++) {
+      const point = this.view.projectToScreen(this.view.getCirclePoint(i * 2 * Math.PI / this.sampleCount));
+      if (i === 0) {
+        context.moveTo(point.x, point.y);
+      } else {
+        context.lineTo(point.x, point.y);
+      }
+    }
+    context.stroke();
+    context.setLineDash([]);
+  }
+}
+
+// 圆心处的钉子
+export class CenterNode extends SceneryNode {
+  private radius: number = 4;
+
+  constructor(protected view: CircularMotionView) {
+    super();
+  }
+
+  protected update(): void {
+    this.x = this.view.centerPosition.x;
+    this.y = this.view.centerPosition.y;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.view.palette.guide;
+    context.beginPath();
+    context.arc(0, 0, this.radius, 0, 2 * Math.PI);
+    context.fill();
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: -this.radius, minY: -this.radius, maxX: this.radius, maxY: this.radius };
+  }
+}
+
+// 绳子：从固定端连到物体
+export class RopeNode extends SceneryNode {
+  constructor(protected view: CircularMotionView) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    this.paintRope(context, this.view.getRopeAnchor(), this.view.projectToView(this.view.getBlockWorldPosition()));
+  }
+
+  protected paintRope(context: CanvasRenderingContext2D, anchor: Vector2, block: Vector2): void {
+    context.strokeStyle = this.view.palette.guide;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(anchor.x, anchor.y);
+    context.lineTo(block.x, block.y);
+    context.stroke();
+  }
+}
+
+// 运动物体（方块），节点原点随物体移动
+export class BlockNode extends SceneryNode {
+  protected halfSize: number = 8;
+
+  constructor(protected view: CircularMotionView) {
+    super();
+  }
+
+  protected update(): void {
+    const position = this.view.projectToView(this.view.getBlockWorldPosition());
+    this.x = position.x;
+    this.y = position.y;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.view.palette.block;
+    context.fillRect(-this.halfSize, -this.halfSize, 2 * this.halfSize, 2 * this.halfSize);
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: -this.halfSize, minY: -this.halfSize, maxX: this.halfSize, maxY: this.halfSize };
+  }
+}
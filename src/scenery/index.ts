@@ -0,0 +1,106 @@
+export { SceneryNode, boundsContainPoint, type Bounds, type Vector2, type Vector3 } from './SceneryNode';
+export { Camera, CameraView, CAMERA_VIEWS, type CameraOrientation } from './Camera';
+export { createSceneryPalette, LIGHT_PALETTE, type QuantityColors, type SceneryPalette, type ToolColors } from './theme';
+export {
+  BlockNode,
+  CenterNode,
+  PlaneNode,
+  RopeNode,
+  TrajectoryNode,
+  type CircularMotionView
+} from './circularMotionNodes';
+export { UniformCircularMotionModel, UniformCircularMotionScene } from './UniformCircularMotionScene';
+export {
+  TrailColoring,
+  TRAIL_COLORING_LABELS,
+  SimulationState,
+  SimulationMode,
+  RADIUS_RANGE,
+  ROAD_RADIUS_RANGE,
+  TABLE_RADIUS_RANGE,
+  CENTER_SNAP_PIXELS,
+  DEFAULT_CENTER_POSITION,
+  ANGLE_SNAP,
+  snapTo,
+  OrbitCentralBody,
+  GRAVITATIONAL_CONSTANT,
+  ORBIT_CENTRAL_BODIES,
+  RotationDirection,
+  ReferenceFrame,
+  DragModel,
+  DRAG_MODEL_LABELS,
+  ForceKind,
+  FORCE_KINDS,
+  scaleVector,
+  addVectors,
+  dotProduct,
+  GraphSeries,
+  GRAPH_SERIES,
+  ExperimentVariable,
+  EXPERIMENT_VARIABLES,
+  normalizeAngle,
+  type LandingPrediction,
+  type TrajectoryPoint,
+  type RoadProfileSection,
+  type TurntableBodyConfig,
+  type TurntableBody,
+  type ParameterRange,
+  type CentralBodyProperties,
+  type BlockForce,
+  type MotionSample,
+  type EnergySample,
+  type ExperimentRun
+} from './simulationTypes';
+export { Integrator, INTEGRATOR_LABELS, integrateStep, type AccelerationFunction } from './integrators';
+export { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+export {
+  drawArrow,
+  projectArrow,
+  arrowEnd,
+  scaleArrowLength,
+  VELOCITY_ARROW_TIME,
+  RotatingFrameForceNode,
+  AngularVelocityArrowNode,
+  LinearVelocityArrowNode,
+  ACCELERATION_PIXELS_PER_UNIT,
+  CentripetalAccelerationArrowNode,
+  TangentialAccelerationArrowNode,
+  ResultantAccelerationArrowNode,
+  GravityArrowNode,
+  TensionArrowNode,
+  BlockVectorsNode
+} from './arrowNodes';
+export {
+  SimulationBlockNode,
+  SimulationRopeNode,
+  SimulationTrajectoryNode,
+  SimulationCenterNode,
+  SimulationPlaneNode,
+  LandingPredictionNode
+} from './simulationNodes';
+export { TurntableNode } from './TurntableNode';
+export { BridgeNode } from './BridgeNode';
+export { OrbitNode } from './OrbitNode';
+export { RoadNode, BankCrossSectionNode } from './roadCurveNodes';
+export { TrajectoryPathNode, StrobeImagesNode } from './trajectoryNodes';
+export { StatusTextNode } from './StatusTextNode';
+export {
+  IntegratorDriftNode,
+  EnergyChartNode,
+  GRAPH_WIDTH,
+  GRAPH_STRIP_HEIGHT,
+  GRAPH_AXIS_HEIGHT,
+  GRAPH_TIME_WINDOWS,
+  MotionGraphNode
+} from './chartNodes';
+export { FreeBodyDiagramNode } from './FreeBodyDiagramNode';
+export {
+  MeasuringTool,
+  MEASURING_TOOL_LABELS,
+  ToolNode,
+  ToolButtonNode,
+  RulerNode,
+  StopwatchNode,
+  ProtractorNode
+} from './measuringTools';
+export { CanvasObject, CANVAS_OBJECTS, TOOL_CANVAS_OBJECTS, SimulationScene } from './SimulationScene';
@@ -0,0 +1,61 @@
+// 数值积分方法
+export enum Integrator {
+  ANALYTIC = 'analytic',                       // 解析解（竖直平面内为机械能守恒修正）
+  EXPLICIT_EULER = 'explicit-euler',           // 显式欧拉法
+  SEMI_IMPLICIT_EULER = 'semi-implicit-euler', // 半隐式（辛）欧拉法
+  RK4 = 'rk4'                                  // 四阶龙格-库塔法
+}
+
+export const INTEGRATOR_LABELS: Record<Integrator, string> = {
+  [Integrator.ANALYTIC]: '解析解',
+  [Integrator.EXPLICIT_EULER]: '显式欧拉',
+  [Integrator.SEMI_IMPLICIT_EULER]: '半隐式欧拉',
+  [Integrator.RK4]: 'RK4'
+};
+
+// 二阶运动方程：由各坐标分量的位置、速度和时间给出加速度
+export type AccelerationFunction = (positions: number[], velocities: number[], time: number) => number[];
+
+interface PhaseState {
+  positions: number[];
+  velocities: number[];
+}
+
+// 用指定的数值方法把 x'' = a(x, v, t) 推进一步
+export const integrateStep = (
+  integrator: Integrator,
+  state: PhaseState,
+  acceleration: AccelerationFunction,
+  time: number,
+  dt: number
+): PhaseState => {
+  const { positions, velocities } = state;
+  const add = (base: number[], rate: number[], h: number) => base.map((value, i) => value + rate[i] * h);
+
+  if (integrator === Integrator.EXPLICIT_EULER) {
+    const a = acceleration(positions, velocities, time);
+    return { positions: add(positions, velocities, dt), velocities: add(velocities, a, dt) };
+  }
+
+  if (integrator === Integrator.RK4) {
+    const a1 = acceleration(positions, velocities, time);
+    const x2 = add(positions, velocities, dt / 2);
+    const v2 = add(velocities, a1, dt / 2);
+    const a2 = acceleration(x2, v2, time + dt / 2);
+    const x3 = add(positions, v2, dt / 2);
+    const v3 = add(velocities, a2, dt / 2);
+    const a3 = acceleration(x3, v3, time + dt / 2);
+    const x4 = add(positions, v3, dt);
+    const v4 = add(velocities, a3, dt);
+    const a4 = acceleration(x4, v4, time + dt);
+    return {
+      positions: positions.map((x, i) => x + (velocities[i] + 2 * v2[i] + 2 * v3[i] + v4[i]) * dt / 6),
+      velocities: velocities.map((v, i) => v + (a1[i] + 2 * a2[i] + 2 * a3[i] + a4[i]) * dt / 6)
+    };
+  }
+
+  // 半隐式欧拉：先更新速度，再用新速度更新位置（解析模式下也作为默认方法）
+  const a = acceleration(positions, velocities, time);
+  const newVelocities = add(velocities, a, dt);
+  return { positions: add(positions, newVelocities, dt), velocities: newVelocities };
+};
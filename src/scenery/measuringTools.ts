@@ -0,0 +1,294 @@
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Bounds, type Vector2 } from './SceneryNode';
+import { normalizeAngle } from './simulationTypes';
+
+// 测量工具：刻度尺、秒表和量角器
+export enum MeasuringTool {
+  RULER = 'ruler',
+  STOPWATCH = 'stopwatch',
+  PROTRACTOR = 'protractor'
+}
+
+export const MEASURING_TOOL_LABELS: Record<MeasuringTool, string> = {
+  [MeasuringTool.RULER]: '刻度尺',
+  [MeasuringTool.STOPWATCH]: '秒表',
+  [MeasuringTool.PROTRACTOR]: '量角器'
+};
+
+// 可在画布上拖动的工具部件，point 和 previous 为画布像素坐标
+export abstract class ToolNode extends SceneryNode {
+  public abstract dragTo(point: Vector2, previous: Vector2): void;
+}
+
+// 工具上的按钮：按下时执行操作，不随指针拖动
+export class ToolButtonNode extends SceneryNode {
+  private width: number = 48;
+  private height: number = 20;
+
+  constructor(
+    private model: CircularMotionSimulationModel,
+    private getLabel: () => string,
+    private onPress: () => void
+  ) {
+    super();
+  }
+
+  public press(): void {
+    this.onPress();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.model.palette.tools.button;
+    context.fillRect(0, 0, this.width, this.height);
+    context.fillStyle = this.model.palette.tools.buttonText;
+    context.font = '12px Arial';
+    context.textAlign = 'center';
+    context.fillText(this.getLabel(), this.width / 2, 14);
+    context.textAlign = 'left';
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: 0, minY: 0, maxX: this.width, maxY: this.height };
+  }
+}
+
+// 刻度尺：按画面比例尺标定，长度取 1、2、5 × 10ⁿ 米；拖动尺身平移，拖动右端的圆点旋转
+export class RulerNode extends ToolNode {
+  public readonly thickness: number = 28;
+  public pixelLength: number = 0;
+  private lengthMeters: number = 1;
+  private minPixelLength: number = 150;
+  private divisions: number = 20;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 40;
+    this.y = 290;
+    this.addChild(new RulerRotateHandleNode(this));
+  }
+
+  protected update(): void {
+    const scale = this.model.screenPixelsPerMeter;
+    const minLength = this.minPixelLength / scale;
+    const power = Math.pow(10, Math.floor(Math.log10(minLength)));
+    const step = [1, 2, 5, 10].find(candidate => candidate * power >= minLength) ?? 10;
+    this.lengthMeters = step * power;
+    this.pixelLength = this.lengthMeters * scale;
+  }
+
+  public get handleColor(): string {
+    return this.model.palette.tools.rulerStroke;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const colors = this.model.palette.tools;
+    context.fillStyle = colors.rulerFill;
+    context.fillRect(0, 0, this.pixelLength, this.thickness);
+    context.strokeStyle = colors.rulerStroke;
+    context.lineWidth = 1;
+    context.strokeRect(0, 0, this.pixelLength, this.thickness);
+
+    // 每两格一条长刻度，每四格标注读数
+    context.strokeStyle = colors.rulerMarkings;
+    context.fillStyle = colors.rulerMarkings;
+    context.font = '10px Arial';
+    context.textAlign = 'center';
+    for (let i = 0; i <= this.divisions; i++) {
+      const x = i * this.pixelLength / this.divisions;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, i % 2 === 0 ? 10 : 5);
+      context.stroke();
+      if (i % 4 === 0) {
+        context.fillText(`${Number((this.lengthMeters * i / this.divisions).toPrecision(3))}`, x, 21);
+      }
+    }
+    context.textAlign = 'left';
+    context.fillText('m', this.pixelLength - 12, this.thickness - 2);
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: 0, minY: 0, maxX: this.pixelLength, maxY: this.thickness };
+  }
+
+  public dragTo(point: Vector2, previous: Vector2): void {
+    this.x += point.x - previous.x;
+    this.y += point.y - previous.y;
+  }
+}
+
+class RulerRotateHandleNode extends ToolNode {
+  private radius: number = 6;
+
+  constructor(private ruler: RulerNode) {
+    super();
+    this.hitPadding = 6;
+  }
+
+  protected update(): void {
+    this.x = this.ruler.pixelLength + 12;
+    this.y = this.ruler.thickness / 2;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.ruler.handleColor;
+    context.beginPath();
+    context.arc(0, 0, this.radius, 0, 2 * Math.PI);
+    context.fill();
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: -this.radius, minY: -this.radius, maxX: this.radius, maxY: this.radius };
+  }
+
+  // 尺子绕零刻度端旋转，使圆点跟随指针
+  public dragTo(point: Vector2): void {
+    this.ruler.rotation = Math.atan2(point.y - this.ruler.y, point.x - this.ruler.x) - Math.atan2(this.y, this.x);
+  }
+}
+
+// 秒表：读数为仿真时间，暂停仿真时也停止计时
+export class StopwatchNode extends ToolNode {
+  private width: number = 120;
+  private height: number = 62;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 300;
+    this.y = 325;
+    const startButton = new ToolButtonNode(model, () => (model.stopwatchRunning ? '停止' : '开始'), () => model.toggleStopwatch());
+    startButton.x = 8;
+    startButton.y = 34;
+    const resetButton = new ToolButtonNode(model, () => '清零', () => model.resetStopwatch());
+    resetButton.x = 64;
+    resetButton.y = 34;
+    this.addChild(startButton).addChild(resetButton);
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const colors = this.model.palette.tools;
+    context.fillStyle = colors.stopwatchFace;
+    context.fillRect(0, 0, this.width, this.height);
+    context.fillStyle = this.model.stopwatchRunning ? colors.stopwatchRunningText : colors.stopwatchText;
+    context.font = 'bold 18px monospace';
+    context.textAlign = 'center';
+    context.fillText(`${this.model.stopwatchTime.toFixed(2)} s`, this.width / 2, 24);
+    context.textAlign = 'left';
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: 0, minY: 0, maxX: this.width, maxY: this.height };
+  }
+
+  public dragTo(point: Vector2, previous: Vector2): void {
+    this.x += point.x - previous.x;
+    this.y += point.y - previous.y;
+  }
+}
+
+// 量角器：圆心在悬点（圆锥摆）或圆心处，拖动指针末端的圆点读取指针与 0° 线的夹角（逆时针）
+export class ProtractorNode extends SceneryNode {
+  public readonly radius: number = 110;
+  public armAngle: number = -Math.PI / 4; // 指针的屏幕方向（rad，y 轴向下）
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.addChild(new ProtractorArmHandleNode(this));
+  }
+
+  public get armColor(): string {
+    return this.model.palette.accent;
+  }
+
+  protected update(): void {
+    const pivot = this.model.getRopeAnchor();
+    this.x = pivot.x;
+    this.y = pivot.y;
+  }
+
+  // 指针读数（°），逆时针为正
+  public get reading(): number {
+    return normalizeAngle(-this.armAngle) * 180 / Math.PI;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const colors = this.model.palette.tools;
+    context.fillStyle = colors.protractorFill;
+    context.strokeStyle = colors.protractorStroke;
+    context.lineWidth = 1;
+    context.beginPath();
+    context.arc(0, 0, this.radius, 0, 2 * Math.PI);
+    context.fill();
+    context.stroke();
+
+    // 每 5° 一条刻度，每 30° 标注读数
+    context.fillStyle = colors.protractorStroke;
+    context.font = '10px Arial';
+    context.textAlign = 'center';
+    for (let degrees = 0; degrees < 360; degrees += 5) {
+      const angle = -degrees * Math.PI / 180;
+      const tickLength = degrees % 30 === 0 ? 12 : degrees % 10 === 0 ? 8 : 4;
+      context.beginPath();
+      context.moveTo(this.radius * Math.cos(angle), this.radius * Math.sin(angle));
+      context.lineTo((this.radius - tickLength) * Math.cos(angle), (this.radius - tickLength) * Math.sin(angle));
+      context.stroke();
+      if (degrees % 30 === 0) {
+        context.fillText(`${degrees}`, (this.radius - 22) * Math.cos(angle), (this.radius - 22) * Math.sin(angle) + 4);
+      }
+    }
+    context.textAlign = 'left';
+
+    // 0° 基准线、指针和两者之间的角度弧
+    context.setLineDash([4, 3]);
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo(this.radius, 0);
+    context.stroke();
+    context.setLineDash([]);
+    context.strokeStyle = this.model.palette.accent;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(0, 0);
+    context.lineTo((this.radius + 8) * Math.cos(this.armAngle), (this.radius + 8) * Math.sin(this.armAngle));
+    context.stroke();
+    context.lineWidth = 1;
+    context.beginPath();
+    context.arc(0, 0, 24, this.armAngle, 0);
+    context.stroke();
+
+    context.fillStyle = this.model.palette.accent;
+    context.font = 'bold 12px Arial';
+    context.fillText(`${this.reading.toFixed(1)}°`, 28, -8);
+  }
+}
+
+class ProtractorArmHandleNode extends ToolNode {
+  private handleRadius: number = 6;
+
+  constructor(private protractor: ProtractorNode) {
+    super();
+    this.hitPadding = 6;
+  }
+
+  protected update(): void {
+    const distance = this.protractor.radius + 14;
+    this.x = distance * Math.cos(this.protractor.armAngle);
+    this.y = distance * Math.sin(this.protractor.armAngle);
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    context.fillStyle = this.protractor.armColor;
+    context.beginPath();
+    context.arc(0, 0, this.handleRadius, 0, 2 * Math.PI);
+    context.fill();
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return { minX: -this.handleRadius, minY: -this.handleRadius, maxX: this.handleRadius, maxY: this.handleRadius };
+  }
+
+  public dragTo(point: Vector2): void {
+    const local = this.protractor.globalToLocal(point);
+    this.protractor.armAngle = Math.atan2(local.y, local.x);
+  }
+}
@@ -0,0 +1,119 @@
+import { drawArrow } from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode } from './SceneryNode';
+import { SimulationMode, SimulationState } from './simulationTypes';
+
+// 环形弯道路面（汽车转弯模式）
+export class RoadNode extends SceneryNode {
+  private sampleCount: number = 72;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.ROAD_CURVE) return;
+
+    const outerRadius = this.model.radius + this.model.roadWidth / 2;
+    const innerRadius = Math.max(this.model.radius - this.model.roadWidth / 2, 0);
+
+    context.fillStyle = this.model.palette.road;
+    context.beginPath();
+    this.traceRing(context, outerRadius);
+    this.traceRing(context, innerRadius);
+    context.fill('evenodd');
+
+    context.strokeStyle = this.model.palette.roadEdge;
+    context.lineWidth = 1;
+    context.stroke();
+  }
+
+  // 路面边缘：水平面内的圆经相机投影后的闭合路径
+  private traceRing(context: CanvasRenderingContext2D, radius: number): void {
+    for (let i = 0; i <= this.sampleCount; i++) {
+      const angle = i * 2 * Math.PI / this.sampleCount;
+      const point = this.model.projectToScreen({ x: radius * Math.cos(angle), y: radius * Math.sin(angle), z: 0 });
+      if (i === 0) {
+        context.moveTo(point.x, point.y);
+      } else {
+        context.lineTo(point.x, point.y);
+      }
+    }
+    context.closePath();
+  }
+}
+
+// 路面横截面插图：真实显示倾角 β 以及重力、支持力、静摩擦力（汽车转弯模式）
+export class BankCrossSectionNode extends SceneryNode {
+  private width: number = 175;
+  private height: number = 112;
+  private lengthPerWeight: number = 30; // mg 对应的箭头长度（像素）
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+    this.x = 415;
+    this.y = 280;
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode !== SimulationMode.ROAD_CURVE) return;
+
+    context.fillStyle = this.model.palette.background;
+    context.strokeStyle = this.model.palette.planeStroke;
+    context.lineWidth = 1;
+    context.fillRect(0, 0, this.width, this.height);
+    context.strokeRect(0, 0, this.width, this.height);
+
+    context.fillStyle = this.model.palette.text;
+    context.font = '11px Arial';
+    context.fillText('横截面（圆心在左侧）', 6, 14);
+    if (this.model.bankAngle > 0) {
+      context.fillText(`无需摩擦的车速: ${this.model.idealBankSpeed.toFixed(1)} m/s`, 6, this.height - 6);
+    }
+
+    // 路面：外侧（右侧）高，倾角 β
+    const bank = this.model.bankAngle;
+    const car = { x: this.width / 2, y: 72 };
+    const halfRoad = 70;
+    context.strokeStyle = this.model.palette.roadEdge;
+    context.lineWidth = 3;
+    context.beginPath();
+    context.moveTo(car.x - halfRoad * Math.cos(bank), car.y + 6 + halfRoad * Math.sin(bank));
+    context.lineTo(car.x + halfRoad * Math.cos(bank), car.y + 6 - halfRoad * Math.sin(bank));
+    context.stroke();
+
+    context.save();
+    context.translate(car.x, car.y);
+    context.rotate(-bank);
+    context.fillStyle = this.model.palette.vehicle;
+    context.fillRect(-10, -6, 20, 12);
+    context.restore();
+
+    if (this.model.mass === 0) return;
+    const weight = this.model.mass * this.model.gravity;
+    const scale = this.lengthPerWeight / weight;
+
+    drawArrow(context, car, { x: car.x, y: car.y + weight * scale }, this.model.palette.quantities.gravity, 'mg');
+
+    const normal = this.model.normalForce * scale;
+    drawArrow(
+      context,
+      car,
+      { x: car.x - normal * Math.sin(bank), y: car.y - normal * Math.cos(bank) },
+      this.model.palette.quantities.normal,
+      'N'
+    );
+
+    // 静摩擦力沿路面，正值指向内侧（左下）
+    const friction = this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION ? this.model.frictionForce * scale : 0;
+    if (Math.abs(friction) >= 1) {
+      drawArrow(
+        context,
+        car,
+        { x: car.x - friction * Math.cos(bank), y: car.y + friction * Math.sin(bank) },
+        this.model.palette.quantities.friction,
+        'f'
+      );
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import { projectArrow } from './arrowNodes';
+import { BlockNode, CenterNode, PlaneNode, RopeNode, TrajectoryNode } from './circularMotionNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode, type Bounds, type Vector2 } from './SceneryNode';
+import { RotationDirection, SimulationMode, SimulationState } from './simulationTypes';
+
+// PhET风格的视图节点：在共用节点的基础上按场景绘制
+export class SimulationBlockNode extends BlockNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super(model);
+    this.hitPadding = 6; // 可在画布上拖动
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.usesBlockNodes) return;
+
+    if (this.model.mode === SimulationMode.ROAD_CURVE) {
+      this.renderCar(context);
+      return;
+    }
+
+    super.paintSelf(context);
+  }
+
+  public getLocalBounds(): Bounds | null {
+    return this.model.usesBlockNodes ? super.getLocalBounds() : null;
+  }
+
+  // 汽车：车身沿速度方向（切线方向在屏幕上的投影）旋转
+  private renderCar(context: CanvasRenderingContext2D): void {
+    let direction: Vector2;
+    if (this.model.state === SimulationState.NORMAL_CIRCULAR_MOTION) {
+      const sign = this.model.rotationDirection === RotationDirection.CLOCKWISE ? 1 : -1;
+      direction = { x: -Math.sin(this.model.angle) * sign, y: Math.cos(this.model.angle) * sign };
+    } else {
+      direction = this.model.brokenVelocity;
+    }
+    const heading = projectArrow(this.model, this.model.planeToWorld(direction), 1).angle;
+
+    context.save();
+    context.rotate(heading);
+    context.fillStyle = this.model.palette.vehicle;
+    context.fillRect(-12, -6, 24, 12);
+    context.fillStyle = this.model.palette.vehicleWindow;
+    context.fillRect(2, -4, 6, 8); // 前挡风玻璃
+    context.restore();
+  }
+}
+
+export class SimulationRopeNode extends RopeNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super(model);
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.state === SimulationState.ROPE_BROKEN) return;
+    if (this.model.mode === SimulationMode.ROAD_CURVE || !this.model.usesBlockNodes) return;
+    super.paintSelf(context);
+  }
+
+  protected paintRope(context: CanvasRenderingContext2D, centerPos: Vector2, blockPos: Vector2): void {
+    if (this.model.hasElasticRope) {
+      this.renderSpring(context, centerPos, blockPos);
+      return;
+    }
+    if (this.model.state !== SimulationState.ROPE_SLACK) {
+      super.paintRope(context, centerPos, blockPos);
+      return;
+    }
+
+    // 松弛的绳子在重力作用下下垂，下垂量由绳长与两端距离之差估算
+    const ropeLength = this.model.radius * this.model.pixelsPerMeter * this.model.camera.zoom;
+    const span = Math.hypot(blockPos.x - centerPos.x, blockPos.y - centerPos.y);
+    const sag = Math.sqrt(Math.max(ropeLength * ropeLength - span * span, 0)) / 2;
+    context.strokeStyle = this.model.palette.guide;
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(centerPos.x, centerPos.y);
+    context.quadraticCurveTo(
+      (centerPos.x + blockPos.x) / 2,
+      (centerPos.y + blockPos.y) / 2 + sag,
+      blockPos.x,
+      blockPos.y
+    );
+    context.stroke();
+  }
+
+  // 弹性绳画成弹簧：线圈数不变，拉长时线圈变稀疏，并标出实时伸长量
+  private renderSpring(context: CanvasRenderingContext2D, start: Vector2, end: Vector2): void {
+    const coilCount = 12;
+    const amplitude = 5; // 像素
+    const leadFraction = 0.1; // 两端直线段占总长的比例
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) return;
+    const normal = { x: -dy / length, y: dx / length };
+
+    context.strokeStyle = this.model.palette.guide;
+    context.lineWidth = 1.5;
+    context.beginPath();
+    context.moveTo(start.x, start.y);
+    const segments = coilCount * 2;
+    for (let i = 0; i <= segments; i++) {
+      const fraction = leadFraction + (1 - 2 * leadFraction) * i / segments;
+      const offset = i === 0 || i === segments ? 0 : (i % 2 === 0 ? -amplitude : amplitude);
+      context.lineTo(
+        start.x + dx * fraction + normal.x * offset,
+        start.y + dy * fraction + normal.y * offset
+      );
+    }
+    context.lineTo(end.x, end.y);
+    context.stroke();
+
+    context.fillStyle = this.model.palette.guide;
+    context.font = '12px Arial';
+    context.fillText(
+      `Δx = ${this.model.ropeExtension.toFixed(3)} m`,
+      (start.x + end.x) / 2 + normal.x * 14,
+      (start.y + end.y) / 2 + normal.y * 14
+    );
+  }
+}
+
+export class SimulationTrajectoryNode extends TrajectoryNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super(model);
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    // 竖直平面内绳子松弛时仍显示圆周，便于观察物体何时回到圆周上
+    if (!this.model.usesBlockNodes || this.model.state === SimulationState.ROPE_BROKEN) return;
+    super.paintSelf(context);
+  }
+}
+
+export class SimulationCenterNode extends CenterNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super(model);
+    this.hitPadding = 8; // 可在画布上拖动
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (this.model.mode === SimulationMode.ORBIT) return;
+
+    if (this.model.mode === SimulationMode.CONICAL) {
+      this.renderPivot(context);
+      return;
+    }
+
+    super.paintSelf(context);
+  }
+
+  // 天体运动和拱桥的画面布局固定，圆心不能拖动
+  public getLocalBounds(): Bounds | null {
+    return this.model.usesCamera ? super.getLocalBounds() : null;
+  }
+
+  // 圆锥摆：从平面中心竖起支架，顶端为悬点，虚线为圆锥的轴
+  private renderPivot(context: CanvasRenderingContext2D): void {
+    const anchor = this.parentToLocal(this.model.getRopeAnchor());
+    const circleCenter = this.parentToLocal(this.model.getCircleCenter());
+
+    context.strokeStyle = this.model.palette.faintGuide;
+    context.lineWidth = 1;
+    context.setLineDash([3, 3]);
+    context.beginPath();
+    context.moveTo(anchor.x, anchor.y);
+    context.lineTo(0, 0);
+    context.stroke();
+    context.setLineDash([]);
+
+    context.fillStyle = this.model.palette.faintGuide;
+    context.beginPath();
+    context.arc(circleCenter.x, circleCenter.y, 2, 0, 2 * Math.PI);
+    context.fill();
+
+    // 悬点处的横梁
+    context.strokeStyle = this.model.palette.guide;
+    context.lineWidth = 4;
+    context.beginPath();
+    context.moveTo(anchor.x - 20, anchor.y);
+    context.lineTo(anchor.x + 20, anchor.y);
+    context.stroke();
+
+    context.fillStyle = this.model.palette.guide;
+    context.beginPath();
+    context.arc(anchor.x, anchor.y, 4, 0, 2 * Math.PI);
+    context.fill();
+  }
+}
+
+export class SimulationPlaneNode extends PlaneNode {
+  constructor(private model: CircularMotionSimulationModel) {
+    super(model);
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    // 竖直平面模式为正视图，天体运动为俯视图，均不绘制水平面
+    if (this.model.mode === SimulationMode.VERTICAL || this.model.mode === SimulationMode.ORBIT) return;
+
+    if (this.model.mode === SimulationMode.HORIZONTAL && this.model.tableEnabled) {
+      this.renderTable(context);
+      return;
+    }
+
+    super.paintSelf(context);
+  }
+
+  // 有高度的桌子：地面、桌面、桌子前沿和桌腿，按从后往前的顺序绘制
+  private renderTable(context: CanvasRenderingContext2D): void {
+    const halfWidth = this.model.tableHalfWidth;
+    const halfDepth = this.model.tableHalfDepth;
+    const floor = -this.model.tableHeight;
+    const thickness = 0.05; // 桌面厚度（m）
+
+    this.fillPolygon(context, [
+      { x: -2.9, y: -halfDepth, z: floor },
+      { x: 2.9, y: -halfDepth, z: floor },
+      { x: 2.9, y: 3, z: floor },
+      { x: -2.9, y: 3, z: floor }
+    ], this.model.palette.floor, this.model.palette.ground);
+
+    const drawLeg = (x: number, y: number) => {
+      const top = this.model.projectToView({ x, y, z: -thickness });
+      const bottom = this.model.projectToView({ x, y, z: floor });
+      context.strokeStyle = this.model.palette.faintGuide;
+      context.lineWidth = 4;
+      context.beginPath();
+      context.moveTo(top.x, top.y);
+      context.lineTo(bottom.x, bottom.y);
+      context.stroke();
+    };
+    const legInset = 0.1;
+    drawLeg(-halfWidth + legInset, -halfDepth + legInset);
+    drawLeg(halfWidth - legInset, -halfDepth + legInset);
+
+    this.fillPolygon(context, [
+      { x: -halfWidth, y: -halfDepth, z: 0 },
+      { x: halfWidth, y: -halfDepth, z: 0 },
+      { x: halfWidth, y: halfDepth, z: 0 },
+      { x: -halfWidth, y: halfDepth, z: 0 }
+    ], this.model.palette.plane, this.model.palette.planeStroke);
+    this.fillPolygon(context, [
+      { x: -halfWidth, y: halfDepth, z: 0 },
+      { x: halfWidth, y: halfDepth, z: 0 },
+      { x: halfWidth, y: halfDepth, z: -thickness },
+      { x: -halfWidth, y: halfDepth, z: -thickness }
+    ], this.model.palette.planeStroke, this.model.palette.faintGuide);
+
+    drawLeg(-halfWidth + legInset, halfDepth - legInset);
+    drawLeg(halfWidth - legInset, halfDepth - legInset);
+  }
+}
+
+// 平抛预测：离开桌边后的抛物线（虚线）和落点（水平面桌面模式）
+export class LandingPredictionNode extends SceneryNode {
+  private sampleCount: number = 24;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const prediction = this.model.landingPrediction;
+    // 预测的平抛轨迹画在地面参考系中
+    if (!prediction || this.model.mode !== SimulationMode.HORIZONTAL || this.model.isRotatingView) return;
+
+    const { exitPoint, velocity, flightTime } = prediction;
+    context.strokeStyle = this.model.palette.prediction;
+    context.lineWidth = 1.5;
+    context.setLineDash([4, 4]);
+    context.beginPath();
+    for (let i = 0; i <= this.sampleCount; i++) {
+      const t = flightTime * i / this.sampleCount;
+      const point = this.model.projectToScreen({
+        x: exitPoint.x + velocity.x * t,
+        y: exitPoint.y + velocity.y * t,
+        z: -0.5 * this.model.gravity * t * t
+      });
+      if (i === 0) {
+        context.moveTo(point.x, point.y);
+      } else {
+        context.lineTo(point.x, point.y);
+      }
+    }
+    context.stroke();
+    context.setLineDash([]);
+
+    // 落点标记
+    const landing = this.model.projectToScreen({
+      x: prediction.landingPoint.x,
+      y: prediction.landingPoint.y,
+      z: -this.model.tableHeight
+    });
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(landing.x - 6, landing.y - 4);
+    context.lineTo(landing.x + 6, landing.y + 4);
+    context.moveTo(landing.x + 6, landing.y - 4);
+    context.lineTo(landing.x - 6, landing.y + 4);
+    context.stroke();
+
+    context.fillStyle = this.model.palette.prediction;
+    context.font = '12px Arial';
+    context.fillText('落点', landing.x + 8, landing.y + 4);
+  }
+}
@@ -0,0 +1,328 @@
+import type { Vector2, Vector3 } from './SceneryNode';
+import type { QuantityColors } from './theme';
+
+// 物体离开桌边后的平抛预测（水平坐标为相对圆心的世界坐标，单位：米）
+export interface LandingPrediction {
+  exitPoint: Vector2;       // 离开桌边的位置
+  velocity: Vector2;        // 水平速度（m/s）
+  landingPoint: Vector2;    // 落地点
+  flightTime: number;       // 飞行时间 t = √(2h/g)（s）
+  horizontalDistance: number; // 水平位移（m）
+}
+
+// 轨迹点（世界坐标，地面参考系），同时记录此刻旋转参考系转过的角度，便于换到旋转参考系中显示
+export interface TrajectoryPoint extends Vector3 {
+  frameAngle: number;
+  time: number; // s
+  velocity: Vector3; // 世界坐标（m/s），频闪照片中画出速度矢量
+  speed: number; // m/s
+  tension: number; // N，脱离圆周后为 0
+}
+
+// 轨迹的着色方式：单色，或按速率、拉力由蓝到红渐变
+export enum TrailColoring {
+  SOLID = 'solid',
+  SPEED = 'speed',
+  TENSION = 'tension'
+}
+
+export const TRAIL_COLORING_LABELS: Record<TrailColoring, string> = {
+  [TrailColoring.SOLID]: '单色',
+  [TrailColoring.SPEED]: '按速率着色',
+  [TrailColoring.TENSION]: '按拉力着色'
+};
+
+// 拱桥模式的路面分段（m，x 轴向右、y 轴向上）：圆弧段的曲率带符号，凹形为正、凸形为负，平直路面为 0
+export interface RoadProfileSection {
+  name: string;
+  startX: number;
+  endX: number;
+  centerX: number; // 圆弧圆心（平直路面不使用）
+  centerY: number;
+  curvature: number; // 1/m
+}
+
+// 转盘上物体的参数：到转轴的距离、质量和与盘面间的动摩擦因数（近似等于最大静摩擦因数）
+export interface TurntableBodyConfig {
+  radius: number;              // m
+  mass: number;                // kg
+  frictionCoefficient: number;
+}
+
+// 转盘上的物体：随盘转动时静摩擦力提供向心力，滑动后沿切线方向匀速运动
+export interface TurntableBody extends TurntableBodyConfig {
+  angleOffset: number;         // 相对转盘参考线的角位置（rad）
+  state: SimulationState;      // 随盘转动或相对转盘滑动（SKIDDING）
+  slipTime: number | null;     // 开始滑动的时刻（s）
+  slipAngularVelocity: number; // 开始滑动时转盘的角速度（rad/s）
+  position: Vector2;           // 滑动后相对转轴的世界坐标（m）
+  velocity: Vector2;           // 滑动后的速度（m/s）
+}
+
+// 物理模拟状态
+export enum SimulationState {
+  NORMAL_CIRCULAR_MOTION = 'normal',
+  ROPE_SLACK = 'slack', // 绳子松弛，物体做抛体运动
+  ROPE_BROKEN = 'broken',
+  SKIDDING = 'skidding', // 汽车侧滑，静摩擦力不足以提供向心力
+  CRASHED = 'crashed',   // 卫星撞上中心天体
+  AIRBORNE = 'airborne'  // 汽车在拱桥上离开路面
+}
+
+// 仿真场景
+export enum SimulationMode {
+  HORIZONTAL = 'horizontal', // 水平面内圆周运动
+  VERTICAL = 'vertical',     // 竖直平面内圆周运动（受重力）
+  CONICAL = 'conical',       // 圆锥摆
+  ROAD_CURVE = 'road',       // 汽车转弯（摩擦力与路面倾角）
+  TURNTABLE = 'turntable',   // 转盘上的多个物体（静摩擦力与滑动先后）
+  ORBIT = 'orbit',           // 天体运动（万有引力提供向心力）
+  BRIDGE = 'bridge'          // 拱桥与凹形路面（竖直平面内的汽车）
+}
+
+// 滑块的取值范围和步长
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// 半径滑块：汽车转弯的弯道半径为几十米；在画布上拖动物体时半径同样按步长取整
+export const RADIUS_RANGE: ParameterRange = { min: 0, max: 10, step: 0.1 };
+
+export const ROAD_RADIUS_RANGE: ParameterRange = { min: 10, max: 70, step: 1 };
+
+// 在桌面上运动时圆周不能超出桌边：半径不超过桌面较短一侧的半宽 1.2 m
+export const TABLE_RADIUS_RANGE: ParameterRange = { ...RADIUS_RANGE, max: 1.2 };
+
+export const DEFAULT_CENTER_POSITION: Vector2 = { x: 300, y: 220 }; // 世界坐标原点的默认屏幕坐标（像素）
+
+export const CENTER_SNAP_PIXELS = 10; // 拖动圆心时按 10 像素取整
+
+export const ANGLE_SNAP = Math.PI / 12; // 拖动物体设定角度时按 15° 取整
+
+export const snapTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+// 天体运动的中心天体
+export enum OrbitCentralBody {
+  EARTH = 'earth', // 人造卫星绕地球
+  SUN = 'sun'      // 行星绕太阳
+}
+
+// 显示用的单位：1 个单位等于多少国际单位
+interface DisplayUnit {
+  label: string;
+  size: number;
+}
+
+export interface CentralBodyProperties {
+  name: string;
+  mass: number;              // kg
+  radius: number;            // m
+  color: string;
+  distanceUnit: DisplayUnit; // 轨道半径的单位（相对 m）
+  timeUnit: DisplayUnit;     // 时间和周期的单位（相对 s）
+  pixelsPerMeter: number;    // 天文尺度下的画面缩放
+  timeScale: number;         // 每秒真实时间对应的仿真时间（s）
+  minOrbitRadius: number;    // 以 distanceUnit 计
+  maxOrbitRadius: number;
+  defaultOrbitRadius: number;
+}
+
+export const GRAVITATIONAL_CONSTANT = 6.674e-11; // N·m²/kg²
+
+const ASTRONOMICAL_UNIT = 1.496e11; // m
+
+const ORBIT_VIEW_RADIUS = 170; // 最大轨道半径在画面上的像素数
+
+export const ORBIT_CENTRAL_BODIES: Record<OrbitCentralBody, CentralBodyProperties> = {
+  [OrbitCentralBody.EARTH]: {
+    name: '地球',
+    mass: 5.972e24,
+    radius: 6.371e6,
+    color: '#1E88E5',
+    distanceUnit: { label: 'km', size: 1e3 },
+    timeUnit: { label: 'h', size: 3600 },
+    pixelsPerMeter: ORBIT_VIEW_RADIUS / 4.0e7,
+    timeScale: 2000, // 近地卫星约 3 s 转一圈
+    minOrbitRadius: 6800,
+    maxOrbitRadius: 40000,
+    defaultOrbitRadius: 10000
+  },
+  [OrbitCentralBody.SUN]: {
+    name: '太阳',
+    mass: 1.989e30,
+    radius: 6.96e8,
+    color: '#FFB300',
+    distanceUnit: { label: 'AU', size: ASTRONOMICAL_UNIT },
+    timeUnit: { label: '年', size: 3.156e7 },
+    pixelsPerMeter: ORBIT_VIEW_RADIUS / (5 * ASTRONOMICAL_UNIT),
+    timeScale: 3.156e7 / 4, // 地球公转约 4 s 一圈
+    minOrbitRadius: 0.3,
+    maxOrbitRadius: 5,
+    defaultOrbitRadius: 1
+  }
+};
+
+// 旋转方向
+export enum RotationDirection {
+  CLOCKWISE = 'clockwise',
+  COUNTERCLOCKWISE = 'counterclockwise'
+}
+
+// 观察参考系（水平面模式）
+export enum ReferenceFrame {
+  GROUND = 'ground',    // 地面参考系（惯性系）
+  ROTATING = 'rotating' // 随物体一起转动的参考系（非惯性系）
+}
+
+// 空气阻力模型（水平面模式）
+export enum DragModel {
+  NONE = 'none',
+  LINEAR = 'linear',      // f = bv
+  QUADRATIC = 'quadratic' // f = cv²
+}
+
+export const DRAG_MODEL_LABELS: Record<DragModel, string> = {
+  [DragModel.NONE]: '无阻力',
+  [DragModel.LINEAR]: '线性阻力 f = bv',
+  [DragModel.QUADRATIC]: '二次阻力 f = cv²'
+};
+
+// 受力分析图中作用在物体上的力
+export enum ForceKind {
+  GRAVITY = 'gravity',
+  NORMAL = 'normal',
+  TENSION = 'tension',
+  FRICTION = 'friction',
+  DRAG = 'drag'
+}
+
+interface ForceProperties {
+  label: string;
+  symbol: string;
+  quantity: keyof QuantityColors; // 颜色与画布上对应的箭头一致
+}
+
+export const FORCE_KINDS: Record<ForceKind, ForceProperties> = {
+  [ForceKind.GRAVITY]: { label: '重力', symbol: 'mg', quantity: 'gravity' },
+  [ForceKind.NORMAL]: { label: '支持力', symbol: 'N', quantity: 'normal' },
+  [ForceKind.TENSION]: { label: '拉力', symbol: 'T', quantity: 'tension' },
+  [ForceKind.FRICTION]: { label: '摩擦力', symbol: 'f', quantity: 'friction' },
+  [ForceKind.DRAG]: { label: '空气阻力', symbol: 'f阻', quantity: 'drag' }
+};
+
+// 世界坐标中的力矢量（N）
+export interface BlockForce {
+  kind: ForceKind;
+  force: Vector3;
+}
+
+export const scaleVector = (vector: Vector3, factor: number): Vector3 => ({
+  x: vector.x * factor,
+  y: vector.y * factor,
+  z: vector.z * factor
+});
+
+export const addVectors = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+
+export const dotProduct = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+
+// 运动图像的一个采样点：θ 为物体相对圆心的极角（连续累计，rad），x、y 为圆周平面内的坐标（m，竖直平面内 y 向上）
+export interface MotionSample {
+  time: number; // s
+  angle: number;
+  x: number;
+  y: number;
+  speed: number; // m/s
+  centripetalAcceleration: number; // m/s²，脱离圆周后为 0
+  tension: number; // N
+  friction: number; // N，汽车转弯的静摩擦力
+}
+
+// 运动图像中可选的曲线
+export enum GraphSeries {
+  ANGLE = 'angle',
+  X = 'x',
+  Y = 'y',
+  SPEED = 'speed',
+  CENTRIPETAL_ACCELERATION = 'centripetal-acceleration',
+  TENSION = 'tension',
+  FRICTION = 'friction'
+}
+
+interface GraphSeriesProperties {
+  label: string;
+  unit: string;
+  quantity: keyof QuantityColors;
+  field: Exclude<keyof MotionSample, 'time'>;
+}
+
+export const GRAPH_SERIES: Record<GraphSeries, GraphSeriesProperties> = {
+  [GraphSeries.ANGLE]: { label: 'θ', unit: 'rad', quantity: 'angle', field: 'angle' },
+  [GraphSeries.X]: { label: 'x', unit: 'm', quantity: 'positionX', field: 'x' },
+  [GraphSeries.Y]: { label: 'y', unit: 'm', quantity: 'positionY', field: 'y' },
+  [GraphSeries.SPEED]: { label: '|v|', unit: 'm/s', quantity: 'velocity', field: 'speed' },
+  [GraphSeries.CENTRIPETAL_ACCELERATION]: { label: 'aₙ', unit: 'm/s²', quantity: 'centripetal', field: 'centripetalAcceleration' },
+  [GraphSeries.TENSION]: { label: 'T', unit: 'N', quantity: 'tension', field: 'tension' },
+  [GraphSeries.FRICTION]: { label: 'f', unit: 'N', quantity: 'friction', field: 'friction' }
+};
+
+// 能量随时间变化曲线上的一个采样点（J）
+export interface EnergySample {
+  time: number;
+  kineticEnergy: number;
+  motorWork: number;
+  dragHeat: number;
+}
+
+// 断裂实验中按固定速率增大的物理量（水平面模式）
+export enum ExperimentVariable {
+  ANGULAR_VELOCITY = 'angular-velocity',
+  RADIUS = 'radius',
+  MASS = 'mass'
+}
+
+// 界面上各实验变量的名称、单位以及起始值和增大速率的范围
+interface ExperimentVariableProperties {
+  label: string;
+  symbol: string;
+  unit: string;
+  rateUnit: string;
+  minStart: number;
+  maxStart: number;
+  defaultStart: number;
+  maxRate: number;
+  defaultRate: number;
+}
+
+export const EXPERIMENT_VARIABLES: Record<ExperimentVariable, ExperimentVariableProperties> = {
+  [ExperimentVariable.ANGULAR_VELOCITY]: {
+    label: '角速度', symbol: 'ω', unit: 'rad/s', rateUnit: 'rad/s²',
+    minStart: 0, maxStart: 2, defaultStart: 0.5, maxRate: 1, defaultRate: 0.2
+  },
+  [ExperimentVariable.RADIUS]: {
+    label: '半径', symbol: 'r', unit: 'm', rateUnit: 'm/s',
+    minStart: 0.1, maxStart: 2, defaultStart: 0.2, maxRate: 0.5, defaultRate: 0.1
+  },
+  [ExperimentVariable.MASS]: {
+    label: '质量', symbol: 'm', unit: 'kg', rateUnit: 'kg/s',
+    minStart: 0.01, maxStart: 5, defaultStart: 0.5, maxRate: 1, defaultRate: 0.2
+  }
+};
+
+// 一次断裂实验的结果：绳子断裂瞬间的质量、半径和角速度
+export interface ExperimentRun {
+  variable: ExperimentVariable;
+  criticalValue: number; // 断裂时所增大的物理量的值
+  mass: number;
+  radius: number;
+  criticalAngularSpeed: number;
+  maxTension: number;
+}
+
+// 将角度规范到 [0, 2π)
+export const normalizeAngle = (angle: number): number => {
+  const fullTurn = 2 * Math.PI;
+  return ((angle % fullTurn) + fullTurn) % fullTurn;
+};
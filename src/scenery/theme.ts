@@ -0,0 +1,233 @@
+// 画布的配色：场景节点绘制时从视图模型读取 palette，切换主题或色盲友好配色时整体替换
+
+// 物理量的颜色：矢量箭头、受力分析图、运动图像和图例共用
+export interface QuantityColors {
+  velocity: string;
+  centripetal: string;     // 向心加速度、向心力
+  tangential: string;      // 切向加速度
+  resultant: string;       // 合加速度
+  angularVelocity: string;
+  gravity: string;
+  normal: string;
+  tension: string;
+  friction: string;
+  drag: string;
+  coriolis: string;        // 科里奥利力
+  angle: string;
+  positionX: string;
+  positionY: string;
+  kineticEnergy: string;
+  work: string;            // 电机做功
+  heat: string;            // 阻力耗散的能量
+}
+
+// 测量工具和画布上按钮的颜色：工具有自己的底色，刻度和读数的对比度相对底色而言
+export interface ToolColors {
+  button: string;
+  buttonText: string;
+  rulerFill: string;
+  rulerStroke: string;
+  rulerMarkings: string;
+  stopwatchFace: string;
+  stopwatchText: string;
+  stopwatchRunningText: string;
+  protractorFill: string;
+  protractorStroke: string;
+}
+
+export interface SceneryPalette {
+  background: string;
+  text: string;
+  mutedText: string;
+  block: string;
+  guide: string;      // 钉子、绳子、圆形轨迹等辅助线
+  faintGuide: string; // 较淡的辅助线和刻度
+  plane: string;
+  planeStroke: string;
+  panel: string;      // 画布上插图和说明的底色
+  panelStroke: string;
+  grid: string;
+  accent: string;     // 量角器等工具的指针和读数
+  trajectory: string;
+  warning: string;    // 断绳、侧滑等提示
+  caution: string;    // 绳子松弛、超重等需要留意但不是事故的提示
+  prediction: string; // 平抛落点预测
+  vehicle: string;    // 汽车车身
+  vehicleWindow: string;
+  wheel: string;
+  floor: string;      // 桌子下方的地板
+  ground: string;     // 拱桥下方的地面、地板边线
+  road: string;       // 弯道路面
+  roadEdge: string;   // 路面边线和拱桥路面
+  tools: ToolColors;
+  turntableBodies: string[]; // 转盘上各物体的颜色，与参数面板中的编号对应
+  quantities: QuantityColors;
+}
+
+type BasePalette = Omit<SceneryPalette, 'quantities' | 'turntableBodies'>;
+
+const LIGHT_BASE: BasePalette = {
+  background: '#ffffff',
+  text: '#333333',
+  mutedText: '#666666',
+  block: '#000000',
+  guide: '#808080',
+  faintGuide: '#A0A0A0',
+  plane: '#f0f0f0',
+  planeStroke: '#d0d0d0',
+  panel: 'rgba(255, 255, 255, 0.9)',
+  panelStroke: '#B0BEC5',
+  grid: '#CFD8DC',
+  accent: '#0D47A1',
+  trajectory: '#4CAF50',
+  warning: '#ff0000',
+  caution: '#E65100',
+  prediction: '#FF5722',
+  vehicle: '#1565C0',
+  vehicleWindow: '#BBDEFB',
+  wheel: '#333333',
+  floor: '#EFEBE9',
+  ground: '#D7CCC8',
+  road: '#9E9E9E',
+  roadEdge: '#757575',
+  tools: {
+    button: '#455A64',
+    buttonText: '#ffffff',
+    rulerFill: 'rgba(255, 236, 179, 0.9)',
+    rulerStroke: '#B8860B',
+    rulerMarkings: '#5D4037',
+    stopwatchFace: 'rgba(38, 50, 56, 0.9)',
+    stopwatchText: '#ECEFF1',
+    stopwatchRunningText: '#A5D6A7',
+    protractorFill: 'rgba(227, 242, 253, 0.35)',
+    protractorStroke: '#1E88E5'
+  }
+};
+
+// 投影仪和暗室使用：深色背景上的文字和辅助线取浅色
+const DARK_BASE: BasePalette = {
+  background: '#121212',
+  text: '#E0E0E0',
+  mutedText: '#A0A0A0',
+  block: '#F5F5F5',
+  guide: '#9E9E9E',
+  faintGuide: '#757575',
+  plane: '#263238',
+  planeStroke: '#455A64',
+  panel: 'rgba(33, 33, 33, 0.9)',
+  panelStroke: '#546E7A',
+  grid: '#37474F',
+  accent: '#90CAF9',
+  trajectory: '#66BB6A',
+  warning: '#FF6E6E',
+  caution: '#FFB74D',
+  prediction: '#FF8A65',
+  vehicle: '#42A5F5',
+  vehicleWindow: '#E3F2FD',
+  wheel: '#BDBDBD',
+  floor: '#2B2725',
+  ground: '#4E342E',
+  road: '#616161',
+  roadEdge: '#9E9E9E',
+  tools: {
+    button: '#607D8B',
+    buttonText: '#ffffff',
+    rulerFill: 'rgba(255, 224, 130, 0.9)',
+    rulerStroke: '#FFD54F',
+    rulerMarkings: '#4E342E',
+    stopwatchFace: 'rgba(69, 90, 100, 0.95)',
+    stopwatchText: '#ECEFF1',
+    stopwatchRunningText: '#A5D6A7',
+    protractorFill: 'rgba(144, 202, 249, 0.15)',
+    protractorStroke: '#90CAF9'
+  }
+};
+
+// 转盘上物体的颜色：深色背景上换成较浅的同色系颜色，色盲友好配色取 Okabe–Ito 中相互易区分的四色
+const STANDARD_LIGHT_BODIES = ['#1E88E5', '#E53935', '#43A047', '#8E24AA'];
+const STANDARD_DARK_BODIES = ['#64B5F6', '#EF5350', '#66BB6A', '#BA68C8'];
+const COLOR_BLIND_LIGHT_BODIES = ['#0072B2', '#D55E00', '#009E73', '#CC79A7'];
+const COLOR_BLIND_DARK_BODIES = ['#56B4E9', '#E69F00', '#009E73', '#CC79A7'];
+
+const STANDARD_LIGHT_QUANTITIES: QuantityColors = {
+  velocity: '#FFC107',
+  centripetal: '#F44336',
+  tangential: '#E91E63',
+  resultant: '#795548',
+  angularVelocity: '#4CAF50',
+  gravity: '#9C27B0',
+  normal: '#009688',
+  tension: '#2196F3',
+  friction: '#FF9800',
+  drag: '#607D8B',
+  coriolis: '#3F51B5',
+  angle: '#4CAF50',
+  positionX: '#3F51B5',
+  positionY: '#00BCD4',
+  kineticEnergy: '#FF9800',
+  work: '#4CAF50',
+  heat: '#F44336'
+};
+
+// 深色背景上对比度不足 3:1 的紫、棕、靛蓝换成较浅的同色系颜色
+const STANDARD_DARK_QUANTITIES: QuantityColors = {
+  ...STANDARD_LIGHT_QUANTITIES,
+  resultant: '#BCAAA4',
+  gravity: '#CE93D8',
+  drag: '#90A4AE',
+  coriolis: '#9FA8DA',
+  positionX: '#9FA8DA'
+};
+
+// 色盲友好配色：取自 Okabe–Ito 和 Paul Tol 的配色，红绿色盲也能区分；浅色背景上加深到对比度不低于 3:1
+const COLOR_BLIND_LIGHT_QUANTITIES: QuantityColors = {
+  velocity: '#B07A00',
+  centripetal: '#D55E00',
+  tangential: '#CC79A7',
+  resultant: '#555555',
+  angularVelocity: '#009E73',
+  gravity: '#882255',
+  normal: '#338877',
+  tension: '#0072B2',
+  friction: '#8C8C1F',
+  drag: '#6F6F6F',
+  coriolis: '#332288',
+  angle: '#009E73',
+  positionX: '#332288',
+  positionY: '#338877',
+  kineticEnergy: '#D55E00',
+  work: '#009E73',
+  heat: '#0072B2'
+};
+
+const COLOR_BLIND_DARK_QUANTITIES: QuantityColors = {
+  velocity: '#F0E442',
+  centripetal: '#F0804A',
+  tangential: '#CC79A7',
+  resultant: '#BBBBBB',
+  angularVelocity: '#009E73',
+  gravity: '#CC6677',
+  normal: '#44AA99',
+  tension: '#56B4E9',
+  friction: '#DDCC77',
+  drag: '#999999',
+  coriolis: '#8877DD',
+  angle: '#009E73',
+  positionX: '#8877DD',
+  positionY: '#44AA99',
+  kineticEnergy: '#F0804A',
+  work: '#009E73',
+  heat: '#56B4E9'
+};
+
+export const createSceneryPalette = (isDark: boolean, colorBlindSafe: boolean): SceneryPalette => {
+  const quantities = colorBlindSafe
+    ? (isDark ? COLOR_BLIND_DARK_QUANTITIES : COLOR_BLIND_LIGHT_QUANTITIES)
+    : (isDark ? STANDARD_DARK_QUANTITIES : STANDARD_LIGHT_QUANTITIES);
+  const turntableBodies = colorBlindSafe
+    ? (isDark ? COLOR_BLIND_DARK_BODIES : COLOR_BLIND_LIGHT_BODIES)
+    : (isDark ? STANDARD_DARK_BODIES : STANDARD_LIGHT_BODIES);
+  return { ...(isDark ? DARK_BASE : LIGHT_BASE), turntableBodies, quantities };
+};
+
+export const LIGHT_PALETTE: SceneryPalette = createSceneryPalette(false, false);
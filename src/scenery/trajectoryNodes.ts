@@ -0,0 +1,117 @@
+import { arrowEnd, drawArrow, projectArrow, scaleArrowLength, VELOCITY_ARROW_TIME } from './arrowNodes';
+import type { CircularMotionSimulationModel } from './CircularMotionSimulationModel';
+import { SceneryNode } from './SceneryNode';
+import { TrailColoring } from './simulationTypes';
+
+// 渐变色：t = 0 为蓝色，t = 1 为红色
+const trailColor = (t: number): string => `hsl(${240 * (1 - t)}, 85%, 45%)`;
+
+export class TrajectoryPathNode extends SceneryNode {
+  private maxAlpha: number = 0.7;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    const trajectory = this.model.trajectoryPoints;
+    if (!this.model.usesBlockNodes || trajectory.length < 2) return;
+
+    context.lineWidth = 2;
+
+    // 每个点按记录时刻的参考系转角换算，旋转参考系中断绳后的直线轨迹显示为螺旋线
+    const points = trajectory.map(point => this.model.projectToView(point, point.frameAngle));
+    const coloring = this.model.trailColoring;
+    if (coloring === TrailColoring.SOLID && !this.model.fadeTrail) {
+      context.strokeStyle = this.model.palette.trajectory;
+      context.globalAlpha = this.maxAlpha;
+      context.beginPath();
+      context.moveTo(points[0].x, points[0].y);
+
+      for (let i = 1; i < points.length; i++) {
+        context.lineTo(points[i].x, points[i].y);
+      }
+
+      context.stroke();
+      context.globalAlpha = 1.0;
+      return;
+    }
+
+    // 逐段着色：颜色按本段终点的速率或拉力相对轨迹中最大值取渐变色，透明度随时间衰减
+    const values = trajectory.map(point => coloring === TrailColoring.TENSION ? Math.max(point.tension, 0) : point.speed);
+    const maxValue = Math.max(...values);
+    const latestTime = trajectory[trajectory.length - 1].time;
+    for (let i = 1; i < points.length; i++) {
+      const age = latestTime - trajectory[i].time;
+      context.globalAlpha = this.model.fadeTrail
+        ? this.maxAlpha * Math.max(1 - age / this.model.trailDuration, 0)
+        : this.maxAlpha;
+      context.strokeStyle = coloring === TrailColoring.SOLID ? this.model.palette.trajectory : trailColor(maxValue > 0 ? values[i] / maxValue : 0);
+      context.beginPath();
+      context.moveTo(points[i - 1].x, points[i - 1].y);
+      context.lineTo(points[i].x, points[i].y);
+      context.stroke();
+    }
+    context.globalAlpha = 1.0;
+
+    if (coloring !== TrailColoring.SOLID) {
+      this.renderLegend(context, coloring, maxValue);
+    }
+  }
+
+  // 右下角的色标：0 到轨迹中的最大值
+  private renderLegend(context: CanvasRenderingContext2D, coloring: TrailColoring, maxValue: number): void {
+    const left = 440;
+    const top = 376;
+    const width = 150;
+    const gradient = context.createLinearGradient(left, 0, left + width, 0);
+    [0, 0.25, 0.5, 0.75, 1].forEach(t => gradient.addColorStop(t, trailColor(t)));
+    context.fillStyle = gradient;
+    context.fillRect(left, top, width, 8);
+
+    const unit = coloring === TrailColoring.TENSION ? 'N' : 'm/s';
+    context.fillStyle = this.model.palette.text;
+    context.font = '11px Arial';
+    context.fillText(coloring === TrailColoring.TENSION ? 'T: 0' : '|v|: 0', left, top - 4);
+    context.textAlign = 'right';
+    context.fillText(`${maxValue.toFixed(2)} ${unit}`, left + width, top - 4);
+    context.textAlign = 'left';
+  }
+}
+
+// 频闪照片：按固定时间间隔留下的物体影像，可选画出各时刻的速度矢量
+export class StrobeImagesNode extends SceneryNode {
+  private halfSize: number = 8;
+
+  constructor(private model: CircularMotionSimulationModel) {
+    super();
+  }
+
+  protected paintSelf(context: CanvasRenderingContext2D): void {
+    if (!this.model.usesBlockNodes || !this.model.showStrobe) return;
+
+    const showVelocity = this.model.showStrobeVelocity && !this.model.isRotatingView;
+    this.model.strobeImages.forEach(image => {
+      const position = this.model.projectToView(image, image.frameAngle);
+      context.globalAlpha = 0.35;
+      context.fillStyle = this.model.palette.block;
+      context.fillRect(position.x - this.halfSize, position.y - this.halfSize, 2 * this.halfSize, 2 * this.halfSize);
+      context.globalAlpha = 1.0;
+      context.strokeStyle = this.model.palette.guide;
+      context.lineWidth = 1;
+      context.strokeRect(position.x - this.halfSize, position.y - this.halfSize, 2 * this.halfSize, 2 * this.halfSize);
+
+      if (!showVelocity || image.speed === 0) return;
+      // 与物体上的速度箭头使用相同的比例
+      const arrow = projectArrow(
+        this.model,
+        image.velocity,
+        scaleArrowLength(this.model, image.speed, this.model.pixelsPerMeter * VELOCITY_ARROW_TIME, 30, 80)
+      );
+      if (arrow.length < 1) return;
+      context.globalAlpha = 0.6;
+      drawArrow(context, position, arrowEnd(position, arrow), this.model.palette.quantities.velocity, '');
+      context.globalAlpha = 1.0;
+    });
+  }
+}